@@ -1,4 +1,15 @@
-import { GLRenderer, GLTexture } from "./gl";
+import { GLPrecision, GLRenderer, GLTexture, GLTextureParams } from "./gl";
+import { ImageInfo, isOrientationApplied, readImageInfo } from "./utils/exif";
+import { Colorspace } from "./utils/colorspace";
+import { Point } from "./utils/homography";
+import {
+  iccToCube,
+  ICCProfile,
+  parseICCProfile,
+  readICCProfile,
+} from "./utils/icc";
+import { fetchImageBuffer, ImageInput } from "./utils/image";
+import { encodePNG } from "./utils/png";
 import { clampVec3Min, toVec3, toVec4, Vec3, Vec4 } from "./utils/vector";
 
 import { COPY } from "./programs";
@@ -6,31 +17,173 @@ import { BaseOperation, CopyOperation } from "./operations/base";
 
 import { ColorOperation } from "./operations/color";
 import { Size, ResizeParams, ResizeOperation } from "./operations/resize";
+import { ExtractOperation, ExtractParams } from "./operations/extract";
+import { ExtendOperation, ExtendParams } from "./operations/extend";
+import { TrimOperation, TrimParams } from "./operations/trim";
+import { RotateOperation, RotateParams } from "./operations/rotate";
+import { FlipOperation } from "./operations/flip";
+import { AffineOperation, AffineParams } from "./operations/affine";
+import {
+  PerspectiveOperation,
+  PerspectiveParams,
+} from "./operations/perspective";
+import { DisplaceOperation, DisplaceParams } from "./operations/displace";
+import { MeshGrid, MeshWarpOperation } from "./operations/mesh";
+import {
+  computeHistogram,
+  Histogram,
+  HistogramParams,
+} from "./operations/histogram";
+import { NormalizeOperation, NormalizeParams } from "./operations/normalize";
+import { ThresholdOperation, ThresholdParams } from "./operations/threshold";
+import {
+  BandboolOperation,
+  BandboolOperator,
+  ChannelName,
+  EnsureAlphaOperation,
+  ExtractChannelOperation,
+  JoinChannelOperation,
+  RemoveAlphaOperation,
+} from "./operations/channels";
 import { BlurOperation } from "./operations/blur";
 import { ModulateOperation, ModulateParams } from "./operations/modulate";
+import { AdjustOperation, AdjustParams } from "./operations/adjust";
+import { ColorMixerOperation, ColorMixerParams } from "./operations/mixer";
+import {
+  AutoWhiteBalanceOperation,
+  AutoWhiteBalanceParams,
+  WhiteBalanceOperation,
+  WhiteBalanceParams,
+} from "./operations/whitebalance";
 import { GammaOperation } from "./operations/gamma";
 import { LinearOperation } from "./operations/linear";
-import { LUTOperation, LUTParams } from "./operations/lut";
+import {
+  RecombMatrix,
+  RecombOperation,
+  RecombParams,
+} from "./operations/recomb";
+import { LUTCurves, LUTOperation, LUTParams } from "./operations/lut";
+import { LUT3DOperation, LUT3DParams } from "./operations/lut3d";
+import { HaldClutOperation, HaldClutParams } from "./operations/hald";
+import {
+  ColorspaceOperation,
+  TransferScope,
+  TransferOperation,
+} from "./operations/colorspace";
 
 type ImageSource = string;
 type LinearInput = number | Vec3 | Vec4;
 
+type LoadImageOptions = {
+  // Apply the EXIF orientation before any other operation
+  autoOrient?: boolean;
+  // Convert embedded ICC profiles to the working color space (default: true)
+  icc?: boolean;
+};
+
+export type ImageMetadata = {
+  // Stored dimensions, before any orientation is applied
+  width: number;
+  height: number;
+  // EXIF orientation, 1 when missing or not read
+  orientation: number;
+  // Working color space of the pipeline input
+  colorspace: Colorspace;
+  // Embedded ICC profile, converted by the pipeline when supported
+  icc?: Omit<ICCProfile, "toXYZ"> & { converted: boolean };
+};
+
+// Rotation followed by mirroring that undoes each EXIF orientation
+const orientations: Record<
+  number,
+  { angle: number; flip?: boolean; flop?: boolean }
+> = {
+  2: { angle: 0, flop: true },
+  3: { angle: 180 },
+  4: { angle: 0, flip: true },
+  5: { angle: 90, flop: true },
+  6: { angle: 90 },
+  7: { angle: 90, flip: true },
+  8: { angle: 270 },
+};
+
 type SharpGPUParams = {
   renderer?: GLRenderer;
   operations?: BaseOperation[];
+  // Process linear-light values in half float buffers, encoding on output
+  linearLight?: boolean;
+  // Intermediate framebuffer precision when creating the renderer
+  precision?: GLPrecision;
+  // Color space of loaded images (default: "srgb")
+  colorspace?: Colorspace;
 };
 
+// Canvas color space holding a pipeline color space, browsers tag only these
+const canvasColorspace = (colorspace: Colorspace): PredefinedColorSpace =>
+  colorspace === "display-p3" ? "display-p3" : "srgb";
+
+// Canvas color space tagging the output, other spaces would pass for sRGB
+function outputColorspace(colorspace: Colorspace): PredefinedColorSpace {
+  if (colorspace !== "srgb" && colorspace !== "display-p3") {
+    throw new Error(
+      `Cannot output ${colorspace} images, convert them to srgb or display-p3`,
+    );
+  }
+  return colorspace;
+}
+
+// Framebuffer rows start at the bottom, encoders expect the top row first
+function flipRows(data: Uint8Array, width: number, height: number) {
+  const stride = width * 4;
+  const out = new Uint8Array(data.length);
+  for (let y = 0; y < height; y++) {
+    out.set(
+      data.subarray(y * stride, (y + 1) * stride),
+      (height - 1 - y) * stride,
+    );
+  }
+  return out;
+}
+
 export class SharpGPU {
   renderer: GLRenderer;
-  operations: BaseOperation[] = [];
+  private queue: BaseOperation[] = [];
+  linearLight: boolean;
+  inputColorspace: Colorspace;
+  private loaded?: ImageMetadata;
 
   constructor(params: SharpGPUParams = {}) {
-    this.renderer = params.renderer ?? new GLRenderer();
+    this.renderer =
+      params.renderer ?? new GLRenderer({ precision: params.precision });
     this.operations = params.operations ?? [];
+    this.linearLight = params.linearLight ?? false;
+    this.inputColorspace = params.colorspace ?? "srgb";
+  }
+
+  static async from(
+    src: ImageSource,
+    options: LoadImageOptions &
+      Pick<SharpGPUParams, "linearLight" | "precision" | "colorspace"> = {},
+  ) {
+    const { linearLight, precision, colorspace } = options;
+    return new SharpGPU({ linearLight, precision, colorspace }).loadImage(
+      src,
+      options,
+    );
   }
 
-  static async from(src: ImageSource) {
-    return new SharpGPU().loadImage(src);
+  get operations() {
+    return this.queue;
+  }
+
+  // Frees the operations left out of the new queue
+  set operations(operations: BaseOperation[]) {
+    for (const operation of this.queue) {
+      if (!operations.includes(operation)) {
+        operation.dispose();
+      }
+    }
+    this.queue = operations;
   }
 
   get canvas() {
@@ -45,25 +198,126 @@ export class SharpGPU {
   }
 
   clone() {
-    return new SharpGPU({
+    const clone = new SharpGPU({
       renderer: this.renderer,
       operations: [...this.operations],
+      linearLight: this.linearLight,
+      colorspace: this.inputColorspace,
     });
+    clone.loaded = this.loaded;
+    return clone;
   }
 
-  async loadImage(src: ImageSource) {
+  async loadImage(src: ImageSource, options: LoadImageOptions = {}) {
     const image = new Image();
     image.src = src;
     await image.decode();
 
-    const texture = this.renderer.texture({
+    // EXIF and ICC metadata are best effort, the image loads without them.
+    // The file is only fetched again when orienting or converting needs it
+    const convertICC = options.icc !== false;
+    const buffer =
+      options.autoOrient || convertICC
+        ? await fetchImageBuffer(src)
+        : undefined;
+    const info: ImageInfo = buffer ? readImageInfo(buffer) : { orientation: 1 };
+
+    const profile = buffer && (await this.readProfile(buffer));
+    const convert = convertICC && !!profile?.toXYZ;
+
+    // Spaces the browser cannot convert to are uploaded as stored, as are
+    // images whose profile is converted below
+    const space = this.inputColorspace;
+    const unpacked = this.renderer.setUnpackColorspace(canvasColorspace(space));
+    let texture: GLTexture;
+    try {
+      texture = this.renderer.texture({
+        width: image.width,
+        height: image.height,
+        data: image,
+        flipY: true,
+        colorspaceConversion:
+          !convert &&
+          (space === "srgb" || (space === "display-p3" && unpacked)),
+      });
+    } finally {
+      // Unpack state is global, keep it from converting secondary inputs
+      this.renderer.setUnpackColorspace("srgb");
+    }
+
+    // Sizes the first framebuffer, the copy below overwrites every pixel
+    this.resize({
       width: image.width,
       height: image.height,
-      data: image,
-      flipY: true,
-    });
+      kernel: "nearest",
+    }).copy(texture);
+
+    if (profile && convert) {
+      this.addOperation(new LUT3DOperation({ lut: iccToCube(profile, space) }));
+    }
+
+    if (this.linearLight) {
+      this.addOperation(new TransferOperation("decode", space));
+    }
+
+    this.loaded = {
+      width: info.width ?? image.width,
+      height: info.height ?? image.height,
+      orientation: info.orientation,
+      colorspace: space,
+    };
+
+    if (profile) {
+      const { toXYZ, ...header } = profile;
+      this.loaded.icc = { ...header, converted: convert };
+    }
 
-    return this.resize(image).copy(texture);
+    // Browsers may already orient on decode, only finish the job if asked
+    if (
+      options.autoOrient &&
+      info.orientation !== 1 &&
+      !isOrientationApplied(info, image)
+    ) {
+      this.orient(info.orientation);
+    }
+
+    return this;
+  }
+
+  // Embedded ICC profile, ignoring unreadable and malformed ones
+  private async readProfile(buffer: ArrayBuffer) {
+    try {
+      const data = await readICCProfile(buffer);
+      return data && parseICCProfile(data);
+    } catch {
+      return undefined;
+    }
+  }
+
+  async metadata(): Promise<ImageMetadata> {
+    if (!this.loaded) {
+      throw new Error("No image loaded");
+    }
+    return this.loaded;
+  }
+
+  private orient(orientation: number) {
+    const steps = orientations[orientation];
+    if (!steps) {
+      return this;
+    }
+
+    if (steps.angle) {
+      this.rotate(steps.angle);
+    }
+
+    if (steps.flip || steps.flop) {
+      this.addOperation(
+        new FlipOperation({ flip: steps.flip, flop: steps.flop }),
+      );
+    }
+
+    return this;
   }
 
   // Operations
@@ -77,6 +331,67 @@ export class SharpGPU {
     return this;
   }
 
+  extract(region: ExtractParams) {
+    this.addOperation(new ExtractOperation(region));
+    return this;
+  }
+
+  extend(params: ExtendParams | number) {
+    const padding =
+      typeof params === "number"
+        ? { top: params, bottom: params, left: params, right: params }
+        : params;
+    this.addOperation(new ExtendOperation(padding));
+    return this;
+  }
+
+  trim(params: TrimParams = {}) {
+    this.addOperation(new TrimOperation(params));
+    return this;
+  }
+
+  rotate(angle: number, options: Omit<RotateParams, "angle"> = {}) {
+    this.addOperation(new RotateOperation({ ...options, angle }));
+    return this;
+  }
+
+  affine(
+    matrix: AffineParams["matrix"],
+    options: Omit<AffineParams, "matrix"> = {},
+  ) {
+    this.addOperation(new AffineOperation({ ...options, matrix }));
+    return this;
+  }
+
+  perspective(params: PerspectiveParams) {
+    this.addOperation(new PerspectiveOperation(params));
+    return this;
+  }
+
+  displace(map: ImageInput, params: DisplaceParams = {}) {
+    this.addOperation(new DisplaceOperation(map, params));
+    return this;
+  }
+
+  meshWarp(grid: MeshGrid) {
+    this.addOperation(new MeshWarpOperation(grid));
+    return this;
+  }
+
+  flip(flip = true) {
+    if (flip) {
+      this.addOperation(new FlipOperation({ flip }));
+    }
+    return this;
+  }
+
+  flop(flop = true) {
+    if (flop) {
+      this.addOperation(new FlipOperation({ flop }));
+    }
+    return this;
+  }
+
   copy(src: GLTexture) {
     this.addOperation(new CopyOperation(src));
     return this;
@@ -96,6 +411,43 @@ export class SharpGPU {
     return this;
   }
 
+  colorMixer(params: ColorMixerParams) {
+    this.addOperation(new ColorMixerOperation(params));
+    return this;
+  }
+
+  adjust(params: AdjustParams) {
+    this.addOperation(
+      new AdjustOperation({ ...params, colorspace: this.colorspace }),
+    );
+    return this;
+  }
+
+  whiteBalance(params: WhiteBalanceParams) {
+    this.addOperation(
+      new WhiteBalanceOperation({ ...params, colorspace: this.colorspace }),
+    );
+    return this;
+  }
+
+  autoWhiteBalance(params: Omit<AutoWhiteBalanceParams, "sample"> = {}) {
+    this.addOperation(
+      new AutoWhiteBalanceOperation({ ...params, colorspace: this.colorspace }),
+    );
+    return this;
+  }
+
+  // Eyedropper, makes the color around a pixel (top-left origin) neutral
+  neutralize(point: Point, radius = 2) {
+    this.addOperation(
+      new AutoWhiteBalanceOperation({
+        sample: { point, radius },
+        colorspace: this.colorspace,
+      }),
+    );
+    return this;
+  }
+
   multiply(multiply: LinearInput) {
     return this.linear(multiply, 0);
   }
@@ -114,6 +466,11 @@ export class SharpGPU {
     return this;
   }
 
+  recomb(matrix: RecombMatrix, offset?: RecombParams["offset"]) {
+    this.addOperation(new RecombOperation({ matrix, offset }));
+    return this;
+  }
+
   gamma(gamma: LinearInput = 2.2, gammaOut: LinearInput = 1) {
     const a = clampVec3Min(toVec3(gamma, 2.2), 0.0001);
     const b = clampVec3Min(toVec3(gammaOut, 1), 0.0001);
@@ -122,6 +479,16 @@ export class SharpGPU {
     return this;
   }
 
+  normalize(params: NormalizeParams = {}) {
+    this.addOperation(new NormalizeOperation(params));
+    return this;
+  }
+
+  threshold(value = 128, options: Omit<ThresholdParams, "value"> = {}) {
+    this.addOperation(new ThresholdOperation({ ...options, value }));
+    return this;
+  }
+
   negate() {
     return this.linear([-1, -1, -1, 1], [1, 1, 1, 0]);
   }
@@ -140,23 +507,136 @@ export class SharpGPU {
     return this;
   }
 
+  curves(curves: LUTCurves) {
+    this.addOperation(new LUTOperation({ curves }));
+    return this;
+  }
+
+  lut3d(lut: LUT3DParams["lut"], options: Omit<LUT3DParams, "lut"> = {}) {
+    this.addOperation(new LUT3DOperation({ ...options, lut }));
+    return this;
+  }
+
+  haldClut(clut: ImageInput, params: HaldClutParams = {}) {
+    this.addOperation(new HaldClutOperation(clut, params));
+    return this;
+  }
+
+  extractChannel(channel: ChannelName | number) {
+    this.addOperation(new ExtractChannelOperation(channel));
+    return this;
+  }
+
+  removeAlpha() {
+    this.addOperation(new RemoveAlphaOperation());
+    return this;
+  }
+
+  ensureAlpha(alpha = 1) {
+    this.addOperation(new EnsureAlphaOperation(alpha));
+    return this;
+  }
+
+  joinChannel(image: ImageInput) {
+    this.addOperation(new JoinChannelOperation(image));
+    return this;
+  }
+
+  bandbool(operator: BandboolOperator) {
+    this.addOperation(new BandboolOperation(operator));
+    return this;
+  }
+
   color(color: Vec4) {
     this.addOperation(new ColorOperation(color));
     return this;
   }
 
   // Render
-  private render() {
-    let src = this.renderer.framebuffer();
-    let dst = this.renderer.framebuffer();
+  private async prepare() {
+    await Promise.all(this.operations.map((operation) => operation.prepare()));
+  }
+
+  toColorspace(colorspace: Colorspace) {
+    this.addOperation(
+      new ColorspaceOperation({ from: this.colorspace, to: colorspace }),
+    );
+    return this;
+  }
+
+  // Color space of the pipeline output
+  get colorspace() {
+    return this.operations.reduce(
+      (colorspace, operation) =>
+        operation instanceof ColorspaceOperation
+          ? operation.params.to
+          : colorspace,
+      this.inputColorspace,
+    );
+  }
+
+  // Channels of the pipeline output, images are loaded as RGBA
+  get channels() {
+    return this.operations.reduce(
+      (channels, operation) => operation.channels(channels),
+      4,
+    );
+  }
+
+  // Pipeline framebuffer sized like the canvas
+  private framebuffer(type: GLTextureParams["type"]) {
+    return this.renderer.framebuffer(
+      this.renderer.texture({
+        width: this.canvas.width,
+        height: this.canvas.height,
+        type,
+      }),
+    );
+  }
+
+  // Runs the operations, returning the 8-bit framebuffer holding the result
+  private process() {
+    // Linear light needs at least half float intermediates to avoid banding
+    const type =
+      this.linearLight && this.renderer.framebufferType === "uint8"
+        ? this.renderer.renderableType("half")
+        : this.renderer.framebufferType;
+
+    if (this.linearLight && type === "uint8") {
+      throw new Error("Linear light requires half float render targets");
+    }
+
+    let src = this.framebuffer(type);
+    let dst = this.framebuffer(type);
+    let channels = 4;
+    let colorspace = this.inputColorspace;
+    // Values turn linear once the loaded image is decoded
+    let linear = false;
+    const encoded = new TransferScope();
 
     // Run operations
     for (const operation of this.operations) {
-      operation.run({
+      const ctx = {
         renderer: this.renderer,
         source: src.texture,
         target: dst,
-      });
+        channels,
+        linear,
+        colorspace,
+      };
+
+      if (operation.encoded) {
+        encoded.run(ctx, false, (ctx) => operation.run(ctx));
+      } else {
+        operation.run(ctx);
+      }
+
+      channels = operation.channels(channels);
+      if (operation instanceof TransferOperation) {
+        linear = operation.transfer === "decode";
+      } else if (operation instanceof ColorspaceOperation) {
+        colorspace = operation.params.to;
+      }
 
       // Swap buffers
       [src, dst] = [dst, src];
@@ -165,6 +645,36 @@ export class SharpGPU {
       dst.texture.resize(src.texture.width, src.texture.height);
     }
 
+    dst.dispose();
+    encoded.dispose();
+
+    if (type === "uint8") {
+      return src;
+    }
+
+    // Convert to 8-bit for display and readback, encoding linear light
+    const output = this.framebuffer("uint8");
+    output.texture.resize(src.texture.width, src.texture.height);
+    const operation = linear
+      ? new TransferOperation("encode", colorspace)
+      : new CopyOperation(src.texture);
+    operation.run({
+      renderer: this.renderer,
+      source: src.texture,
+      target: output,
+    });
+    src.dispose();
+    return output;
+  }
+
+  private render() {
+    const colorspace = outputColorspace(this.colorspace);
+    if (!this.renderer.setDrawingColorspace(colorspace)) {
+      throw new Error(`Canvas output in ${colorspace} is not supported`);
+    }
+
+    const src = this.process();
+
     // Resize canvas
     this.renderer.resize(src.texture.width, src.texture.height);
 
@@ -172,12 +682,17 @@ export class SharpGPU {
     this.renderer.program(COPY).draw({
       source: src.texture,
     });
+
+    src.dispose();
   }
 
   async toCanvas(target: HTMLCanvasElement) {
+    await this.prepare();
     this.render();
 
-    const ctx = target.getContext("2d");
+    const ctx = target.getContext("2d", {
+      colorSpace: outputColorspace(this.colorspace),
+    });
 
     if (!ctx) {
       throw new Error("Failed to get 2D context");
@@ -190,6 +705,31 @@ export class SharpGPU {
   }
 
   async toBlob(type?: string, quality?: number): Promise<Blob> {
+    await this.prepare();
+
+    // Canvas encoders always write RGBA PNGs
+    const channels = this.channels;
+    if ((type ?? "image/png") === "image/png" && channels !== 4) {
+      // These PNGs carry no color space, which readers take as sRGB
+      if (this.colorspace !== "srgb") {
+        throw new Error(
+          `Cannot write ${this.colorspace} PNGs with ${channels} channels`,
+        );
+      }
+
+      const src = this.process();
+      try {
+        return await encodePNG({
+          width: src.texture.width,
+          height: src.texture.height,
+          data: flipRows(src.read(), src.texture.width, src.texture.height),
+          channels,
+        });
+      } finally {
+        src.dispose();
+      }
+    }
+
     this.render();
     return new Promise((resolve, reject) => {
       this.canvas.toBlob(
@@ -200,7 +740,22 @@ export class SharpGPU {
     });
   }
 
+  async histogram(params: HistogramParams = {}): Promise<Histogram> {
+    await this.prepare();
+    const src = this.process();
+
+    try {
+      return computeHistogram(this.renderer, src.texture, params);
+    } finally {
+      src.dispose();
+    }
+  }
+
   destroy() {
+    for (const operation of this.operations) {
+      operation.dispose();
+    }
+    this.queue = [];
     this.renderer.dispose();
   }
 }
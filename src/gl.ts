@@ -1,6 +1,13 @@
 // Generic type for WebGL context
 export type GLContext = WebGLRenderingContext | WebGL2RenderingContext;
 
+export function isWebGL2(gl: GLContext): gl is WebGL2RenderingContext {
+  return (
+    typeof WebGL2RenderingContext !== "undefined" &&
+    gl instanceof WebGL2RenderingContext
+  );
+}
+
 // Map WebGL constants to human-readable values
 export const glMap = (gl: GLContext) => ({
   format: {
@@ -12,6 +19,8 @@ export const glMap = (gl: GLContext) => ({
   },
   type: {
     uint8: gl.UNSIGNED_BYTE,
+    // HALF_FLOAT_OES from OES_texture_half_float on WebGL1
+    half: isWebGL2(gl) ? gl.HALF_FLOAT : 0x8d61,
     float: gl.FLOAT,
   },
   wrap: {
@@ -53,6 +62,7 @@ export const glMap = (gl: GLContext) => ({
     lines: gl.LINES,
     lineStrip: gl.LINE_STRIP,
     lineLoop: gl.LINE_LOOP,
+    triangles: gl.TRIANGLES,
     triangleStrip: gl.TRIANGLE_STRIP,
     triangleFan: gl.TRIANGLE_FAN,
   },
@@ -61,6 +71,7 @@ export const glMap = (gl: GLContext) => ({
     lines: gl.LINES,
     lineStrip: gl.LINE_STRIP,
     lineLoop: gl.LINE_LOOP,
+    triangles: gl.TRIANGLES,
     triangleStrip: gl.TRIANGLE_STRIP,
     triangleFan: gl.TRIANGLE_FAN,
   },
@@ -91,6 +102,10 @@ export type GLTextureParams = {
   minFilter: keyof GLMap["filter"];
   magFilter: keyof GLMap["filter"];
   flipY: boolean;
+  // Let the browser convert embedded color profiles on upload
+  colorspaceConversion: boolean;
+  // Multiply color by alpha on upload
+  premultiplyAlpha: boolean;
 };
 
 export class GLTexture {
@@ -108,6 +123,8 @@ export class GLTexture {
     minFilter: "linear",
     magFilter: "linear",
     flipY: false,
+    colorspaceConversion: true,
+    premultiplyAlpha: false,
   };
 
   constructor(gl: GLContext, params: Partial<GLTextureParams> = {}) {
@@ -155,14 +172,24 @@ export class GLTexture {
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, wrapS);
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, wrapT);
     gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, this.params.flipY ? 1 : 0);
+    gl.pixelStorei(
+      gl.UNPACK_COLORSPACE_CONVERSION_WEBGL,
+      this.params.colorspaceConversion ? gl.BROWSER_DEFAULT_WEBGL : gl.NONE,
+    );
+    gl.pixelStorei(
+      gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL,
+      this.params.premultiplyAlpha ? 1 : 0,
+    );
+
+    const internalFormat = this.internalFormat();
 
     if (data && !ArrayBuffer.isView(data)) {
-      gl.texImage2D(gl.TEXTURE_2D, 0, format, format, type, data);
+      gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, format, type, data);
     } else {
       gl.texImage2D(
         gl.TEXTURE_2D,
         0,
-        format,
+        internalFormat,
         this.width,
         this.height,
         0,
@@ -173,6 +200,55 @@ export class GLTexture {
     }
   }
 
+  // WebGL2 requires sized internal formats for float textures
+  private internalFormat() {
+    const gl = this.gl;
+    const format = glMap(gl).format[this.params.format];
+
+    if (!isWebGL2(gl) || this.params.type === "uint8") {
+      return format;
+    }
+
+    const half = this.params.type === "half";
+    if (this.params.format === "rgba") return half ? gl.RGBA16F : gl.RGBA32F;
+    if (this.params.format === "rgb") return half ? gl.RGB16F : gl.RGB32F;
+    return format;
+  }
+
+  // Update sampling parameters without re-uploading texture data
+  setSampler(
+    params: Partial<
+      Pick<GLTextureParams, "wrapS" | "wrapT" | "minFilter" | "magFilter">
+    >,
+  ) {
+    const gl = this.gl;
+    const map = glMap(gl);
+
+    this.params = { ...this.params, ...params };
+
+    gl.bindTexture(gl.TEXTURE_2D, this.handle);
+    gl.texParameteri(
+      gl.TEXTURE_2D,
+      gl.TEXTURE_MIN_FILTER,
+      map.filter[this.params.minFilter],
+    );
+    gl.texParameteri(
+      gl.TEXTURE_2D,
+      gl.TEXTURE_MAG_FILTER,
+      map.filter[this.params.magFilter],
+    );
+    gl.texParameteri(
+      gl.TEXTURE_2D,
+      gl.TEXTURE_WRAP_S,
+      map.wrap[this.params.wrapS],
+    );
+    gl.texParameteri(
+      gl.TEXTURE_2D,
+      gl.TEXTURE_WRAP_T,
+      map.wrap[this.params.wrapT],
+    );
+  }
+
   resize(width: number, height: number) {
     if (width <= 0 || height <= 0) {
       throw new Error("Texture width and height must be positive");
@@ -282,6 +358,45 @@ export class GLFramebuffer {
     this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, null);
   }
 
+  read(x = 0, y = 0, width = this.texture.width, height = this.texture.height) {
+    const gl = this.gl;
+    const data = new Uint8Array(width * height * 4);
+    this.use(() => {
+      gl.readPixels(x, y, width, height, gl.RGBA, gl.UNSIGNED_BYTE, data);
+    });
+    return data;
+  }
+
+  readFloat(
+    x = 0,
+    y = 0,
+    width = this.texture.width,
+    height = this.texture.height,
+  ) {
+    const gl = this.gl;
+    const data = new Float32Array(width * height * 4);
+    this.use(() => {
+      gl.readPixels(x, y, width, height, gl.RGBA, gl.FLOAT, data);
+    });
+    return data;
+  }
+
+  // Reads values in 0-1 for 8-bit framebuffers, as stored for float ones
+  readNormalized(
+    x = 0,
+    y = 0,
+    width = this.texture.width,
+    height = this.texture.height,
+  ) {
+    if (this.texture.params.type !== "uint8") {
+      return this.readFloat(x, y, width, height);
+    }
+    return Float32Array.from(
+      this.read(x, y, width, height),
+      (value) => value / 255,
+    );
+  }
+
   dispose() {
     this.gl.deleteFramebuffer(this.handle);
     this.texture.dispose();
@@ -327,10 +442,10 @@ export type GLProgramDefinition<Props extends {} = {}> = {
   vert?: string;
   frag?: string;
   primitive?: keyof GLMap["primitive"];
-  count?: number;
+  count?: number | ((props: Props) => number);
   offset?: number;
   indexType?: keyof GLMap["indexType"];
-  elements?: GLBuffer;
+  elements?: GLBuffer | ((props: Props) => GLBuffer);
   attributes?: GLAttributes<Props>;
   uniforms?: GLUniforms<Props>;
   blend?: GLBlendConfig;
@@ -348,6 +463,9 @@ type GLProgramAttribute<Props> = {
   value: GLAttribute | ((props: Props) => GLAttribute);
 };
 
+// Vertex attribute state belongs to the context, shared by all programs
+const boundAttributes = new WeakMap<GLContext, Map<number, GLAttribute>>();
+
 export class GLProgram<Props extends {} = {}> {
   readonly gl: GLContext;
   private readonly handle: WebGLProgram;
@@ -356,15 +474,14 @@ export class GLProgram<Props extends {} = {}> {
     enabled: false,
   };
 
-  private elements?: GLBuffer;
+  private elements?: GLBuffer | ((props: Props) => GLBuffer);
   private primitive: keyof GLMap["primitive"];
-  private count: number;
+  private count: number | ((props: Props) => number);
   private offset: number;
   private indexType?: keyof GLMap["indexType"];
 
   private uniforms: Record<string, GLProgramUniform<Props>> = {};
   private attributes: Record<string, GLProgramAttribute<Props>> = {};
-  private attributeCache = new Map<number, GLAttribute>();
 
   static readonly DEFAULT_VERT = /* glsl */ `
     precision mediump float;
@@ -392,11 +509,20 @@ export class GLProgram<Props extends {} = {}> {
     });
   }
 
-  constructor(gl: GLContext, definition: GLProgramDefinition<Props> = {}) {
+  constructor(
+    gl: GLContext,
+    definition: GLProgramDefinition<Props> = {},
+    highp = false,
+  ) {
     this.gl = gl;
 
-    const vert = definition.vert ?? GLProgram.DEFAULT_VERT;
-    const frag = definition.frag ?? GLProgram.DEFAULT_FRAG;
+    // Shaders declare mediump, upgraded when the renderer asks for highp
+    const precision = (source: string) =>
+      highp
+        ? source.replace(/precision mediump float;/g, "precision highp float;")
+        : source;
+    const vert = precision(definition.vert ?? GLProgram.DEFAULT_VERT);
+    const frag = precision(definition.frag ?? GLProgram.DEFAULT_FRAG);
     const attributes = definition.attributes ?? {
       position: {
         buffer: GLProgram.createFSQuadBuffer(gl),
@@ -640,20 +766,37 @@ export class GLProgram<Props extends {} = {}> {
 
   private applyAttributes(props: Props) {
     const gl = this.gl;
+    let bound = boundAttributes.get(gl);
+    if (!bound) {
+      bound = new Map();
+      boundAttributes.set(gl, bound);
+    }
+
+    const locations = new Set<number>();
     for (const attribute of Object.values(this.attributes)) {
       const value =
         typeof attribute.value === "function"
           ? attribute.value(props)
           : attribute.value;
 
-      const cached = this.attributeCache.get(attribute.location);
+      locations.add(attribute.location);
+
+      const cached = bound.get(attribute.location);
 
       if (cached === value) {
         continue;
       }
 
       this.writeAttribute(gl, attribute.location, value);
-      this.attributeCache.set(attribute.location, value);
+      bound.set(attribute.location, value);
+    }
+
+    // Arrays left enabled by other programs may point at deleted buffers
+    for (const location of bound.keys()) {
+      if (!locations.has(location)) {
+        gl.disableVertexAttribArray(location);
+        bound.delete(location);
+      }
     }
   }
 
@@ -672,7 +815,11 @@ export class GLProgram<Props extends {} = {}> {
     }
   }
 
-  private drawElements(elements: GLBuffer) {
+  private drawCount(props: Props) {
+    return typeof this.count === "function" ? this.count(props) : this.count;
+  }
+
+  private drawElements(elements: GLBuffer, count: number) {
     if (elements.target !== "element") {
       throw new Error("Indexed draws require an element buffer");
     }
@@ -681,13 +828,13 @@ export class GLProgram<Props extends {} = {}> {
     const type = glMap(this.gl).indexType[this.indexType ?? "uint16"];
 
     elements.use(() => {
-      this.gl.drawElements(mode, this.count ?? 4, type, this.offset ?? 0);
+      this.gl.drawElements(mode, count, type, this.offset ?? 0);
     });
   }
 
-  private drawArrays() {
+  private drawArrays(count: number) {
     const mode = glMap(this.gl).primitive[this.primitive];
-    this.gl.drawArrays(mode, this.offset ?? 0, this.count ?? 4);
+    this.gl.drawArrays(mode, this.offset ?? 0, count);
   }
 
   use(fn: () => void) {
@@ -712,10 +859,16 @@ export class GLProgram<Props extends {} = {}> {
       this.applyUniforms(props);
       this.applyAttributes(props);
 
+      const count = this.drawCount(props);
+
       if (this.elements) {
-        this.drawElements(this.elements);
+        const elements =
+          typeof this.elements === "function"
+            ? this.elements(props)
+            : this.elements;
+        this.drawElements(elements, count);
       } else {
-        this.drawArrays();
+        this.drawArrays(count);
       }
     });
   }
@@ -726,15 +879,22 @@ export class GLProgram<Props extends {} = {}> {
 }
 
 // Renderer
+export type GLPrecision = "8bit" | "half" | "float";
+
 export type GLRendererParams = {
   context?: GLContext;
   canvas?: HTMLCanvasElement;
   attributes?: WebGLContextAttributes;
+  // Precision of framebuffers and shaders (default: "8bit")
+  precision?: GLPrecision;
 };
 
 export class GLRenderer {
   gl: GLContext;
   programs: WeakMap<GLProgramDefinition, GLProgram>;
+  readonly precision: GLPrecision;
+  private readonly highp: boolean;
+  private extensions = new Map<string, unknown>();
 
   constructor(params: GLRendererParams = {}) {
     const canvas = params.canvas ?? document.createElement("canvas");
@@ -754,6 +914,14 @@ export class GLRenderer {
 
     this.gl = context;
     this.programs = new WeakMap();
+    this.precision = params.precision ?? "8bit";
+
+    // highp is optional in fragment shaders on WebGL1
+    const high = context.getShaderPrecisionFormat(
+      context.FRAGMENT_SHADER,
+      context.HIGH_FLOAT,
+    );
+    this.highp = this.precision !== "8bit" && !!high && high.precision > 0;
   }
 
   get canvas() {
@@ -776,12 +944,99 @@ export class GLRenderer {
     this.gl.clear(this.gl.COLOR_BUFFER_BIT);
   }
 
+  /**
+   * Color space of the canvas drawing buffer, returning false when the
+   * browser cannot tag it and keeps sRGB.
+   */
+  setDrawingColorspace(colorspace: PredefinedColorSpace) {
+    if (!("drawingBufferColorSpace" in this.gl)) {
+      return colorspace === "srgb";
+    }
+    this.gl.drawingBufferColorSpace = colorspace;
+    return true;
+  }
+
+  // Color space images are converted to on upload, when supported
+  setUnpackColorspace(colorspace: PredefinedColorSpace) {
+    if (!("unpackColorSpace" in this.gl)) {
+      return colorspace === "srgb";
+    }
+    this.gl.unpackColorSpace = colorspace;
+    return true;
+  }
+
+  extension<T = unknown>(name: string): T | null {
+    if (!this.extensions.has(name)) {
+      this.extensions.set(name, this.gl.getExtension(name));
+    }
+    return this.extensions.get(name) as T | null;
+  }
+
+  // Float textures that can be sampled with nearest filtering
+  get supportsFloatTextures() {
+    return isWebGL2(this.gl) || !!this.extension("OES_texture_float");
+  }
+
+  // Float framebuffers that can be rendered to
+  get supportsFloatRender() {
+    return isWebGL2(this.gl)
+      ? !!this.extension("EXT_color_buffer_float")
+      : !!this.extension("OES_texture_float") &&
+          !!this.extension("WEBGL_color_buffer_float");
+  }
+
+  // Half float framebuffers that can be rendered to
+  get supportsHalfFloatRender() {
+    return isWebGL2(this.gl)
+      ? !!this.extension("EXT_color_buffer_float") ||
+          !!this.extension("EXT_color_buffer_half_float")
+      : !!this.extension("OES_texture_half_float") &&
+          !!this.extension("EXT_color_buffer_half_float");
+  }
+
+  // Float framebuffers that can be rendered to and blended additively
+  get supportsFloatBlend() {
+    return this.supportsFloatRender && !!this.extension("EXT_float_blend");
+  }
+
+  /**
+   * Most precise texture type up to `preferred` that can be rendered to and
+   * sampled with linear filtering, falling back to 8-bit.
+   */
+  renderableType(preferred: "half" | "float"): GLTextureParams["type"] {
+    const webgl2 = isWebGL2(this.gl);
+
+    if (
+      preferred === "float" &&
+      this.supportsFloatRender &&
+      this.extension("OES_texture_float_linear")
+    ) {
+      return "float";
+    }
+
+    if (
+      this.supportsHalfFloatRender &&
+      (webgl2 || this.extension("OES_texture_half_float_linear"))
+    ) {
+      return "half";
+    }
+
+    return "uint8";
+  }
+
+  // Framebuffer texture type for the requested precision
+  get framebufferType(): GLTextureParams["type"] {
+    return this.precision === "8bit"
+      ? "uint8"
+      : this.renderableType(this.precision);
+  }
+
   program<Props extends {} = {}>(definition: GLProgramDefinition<Props>) {
     const cached = this.programs.get(definition as GLProgramDefinition);
     if (cached) {
       return cached;
     }
-    const program = new GLProgram(this.gl, definition);
+    const program = new GLProgram(this.gl, definition, this.highp);
     this.programs.set(definition as GLProgramDefinition, program as GLProgram);
     return program as GLProgram<Props>;
   }
@@ -795,6 +1050,7 @@ export class GLRenderer {
       texture = this.texture({
         width: this.canvas.width,
         height: this.canvas.height,
+        type: this.framebufferType,
       });
     }
     return new GLFramebuffer(this.gl, texture);
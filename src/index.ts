@@ -1 +1,6 @@
 export * from "./core";
+export * from "./utils/homography";
+export * from "./utils/cube";
+export * from "./utils/icc";
+export { identityHaldClut } from "./utils/hald";
+export { createMeshGrid } from "./operations/mesh";
@@ -0,0 +1,144 @@
+import { GLTexture, GLProgramDefinition } from "../gl";
+import { ProgramOperation, OperationContext } from "./base";
+import { transferChunk, transferCurveId } from "./colorspace";
+import { Colorspace } from "../utils/colorspace";
+
+export type AdjustUniforms = {
+  source: GLTexture;
+  curve: number;
+  exposure: number;
+  contrast: number;
+  highlights: number;
+  shadows: number;
+  whites: number;
+  blacks: number;
+  vibrance: number;
+};
+
+// Exposure scales linear light. The tone sliders then reshape luminance in a
+// perceptual (gamma 2.2) domain and rescale RGB by the luminance ratio, which
+// keeps hues stable. Vibrance finally saturates muted colors the most.
+const adjustProgram: GLProgramDefinition<AdjustUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform float curve;
+    uniform float exposure;
+    uniform float contrast;
+    uniform float highlights;
+    uniform float shadows;
+    uniform float whites;
+    uniform float blacks;
+    uniform float vibrance;
+    varying vec2 uv;
+
+    const vec3 LUMA = vec3(0.2126, 0.7152, 0.0722);
+    // 18% gray in the perceptual domain
+    const float PIVOT = 0.4586;
+
+    ${transferChunk}
+
+    float tone(float x) {
+      // Black and white points, positive values lift blacks and brighten whites
+      float black = -0.1 * blacks;
+      float white = 1.0 - 0.1 * whites;
+      x = (x - black) / (white - black);
+
+      // Power curves meeting at the pivot, steeper for positive contrast
+      float k = exp2(contrast);
+      float t = clamp(x, 0.0, 1.0);
+      float s = t < PIVOT
+        ? PIVOT * pow(t / PIVOT, k)
+        : 1.0 - (1.0 - PIVOT) * pow((1.0 - t) / (1.0 - PIVOT), k);
+      x += s - t;
+
+      // Smooth bumps peaking at 1/3 (shadows) and 2/3 (highlights)
+      t = clamp(x, 0.0, 1.0);
+      x += 0.125 * shadows * 6.75 * t * (1.0 - t) * (1.0 - t);
+      x += 0.125 * highlights * 6.75 * t * t * (1.0 - t);
+      return x;
+    }
+
+    void main() {
+      vec4 color = texture2D(source, uv);
+      vec3 rgb = decodeCurve(color.rgb, curve) * exp2(exposure);
+
+      float lum = dot(rgb, LUMA);
+      float perceptual = pow(max(lum, 0.0), 1.0 / 2.2);
+      float toned = pow(max(tone(perceptual), 0.0), 2.2);
+      // Above the smallest normal half float, mediump may flush lower values
+      rgb = lum > 1e-4 ? rgb * (toned / lum) : vec3(toned);
+
+      // Weight by the perceptual saturation, protecting saturated colors
+      vec3 encoded = pow(max(rgb, 0.0), vec3(1.0 / 2.2));
+      float saturation =
+        max(max(encoded.r, encoded.g), encoded.b) -
+        min(min(encoded.r, encoded.g), encoded.b);
+      float amount = vibrance > 0.0 ? vibrance * (1.0 - saturation) : vibrance;
+      rgb = mix(vec3(dot(rgb, LUMA)), rgb, 1.0 + amount);
+
+      rgb = encodeCurve(max(rgb, 0.0), curve);
+      gl_FragColor = vec4(clamp(rgb, 0.0, 1.0), color.a);
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    curve: (props) => props.curve,
+    exposure: (props) => props.exposure,
+    contrast: (props) => props.contrast,
+    highlights: (props) => props.highlights,
+    shadows: (props) => props.shadows,
+    whites: (props) => props.whites,
+    blacks: (props) => props.blacks,
+    vibrance: (props) => props.vibrance,
+  },
+};
+
+export type AdjustParams = {
+  // Stops, -5 to 5
+  exposure?: number;
+  // -100 to 100 for the remaining sliders
+  contrast?: number;
+  highlights?: number;
+  shadows?: number;
+  whites?: number;
+  blacks?: number;
+  vibrance?: number;
+};
+
+export type AdjustOperationParams = AdjustParams & {
+  colorspace?: Colorspace;
+};
+
+const clamp = (value: number | undefined, limit: number) =>
+  Math.min(Math.max(value ?? 0, -limit), limit);
+
+export class AdjustOperation extends ProgramOperation<AdjustUniforms> {
+  params: AdjustOperationParams;
+
+  constructor(params: AdjustOperationParams = {}) {
+    super(adjustProgram);
+    this.params = params;
+  }
+
+  getProps(ctx: OperationContext): AdjustUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    const { colorspace = "srgb" } = this.params;
+
+    // Sliders reach the shader normalized to -1..1
+    return {
+      source: ctx.source,
+      curve: transferCurveId(colorspace, ctx.linear),
+      exposure: clamp(this.params.exposure, 5),
+      contrast: clamp(this.params.contrast, 100) / 100,
+      highlights: clamp(this.params.highlights, 100) / 100,
+      shadows: clamp(this.params.shadows, 100) / 100,
+      whites: clamp(this.params.whites, 100) / 100,
+      blacks: clamp(this.params.blacks, 100) / 100,
+      vibrance: clamp(this.params.vibrance, 100) / 100,
+    };
+  }
+}
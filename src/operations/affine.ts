@@ -0,0 +1,214 @@
+import { GLProgramDefinition, GLTexture } from "../gl";
+import {
+  invert3,
+  Mat3,
+  multiply3,
+  transformPoint3,
+  translate3,
+} from "../utils/matrix";
+import { Vec4 } from "../utils/vector";
+import { BaseOperation, OperationContext } from "./base";
+import { Size } from "./resize";
+
+export type Interpolator = "nearest" | "bilinear" | "bicubic";
+
+// Row-major, either flat ([a, b, c, d]) or nested ([[a, b], [c, d]])
+export type AffineMatrix = number[] | number[][];
+
+export type AffineParams = {
+  matrix: AffineMatrix;
+  background?: Vec4;
+  // Input offsets, applied before the matrix
+  idx?: number;
+  idy?: number;
+  // Output offsets, applied after the matrix
+  odx?: number;
+  ody?: number;
+  interpolator?: Interpolator;
+};
+
+export type WarpUniforms = {
+  source: GLTexture;
+  transform: Mat3;
+  background: Vec4;
+  interpolator: Interpolator;
+};
+
+const interpolators: Record<Interpolator, number> = {
+  nearest: 0,
+  bilinear: 1,
+  bicubic: 2,
+};
+
+// Maps target pixels to source pixels through a projective matrix,
+// antialiasing the image edges against the background
+export const warpProgram: GLProgramDefinition<WarpUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform vec2 sourceSize;
+    uniform mat3 transform;
+    uniform vec4 background;
+    uniform float interpolator;
+
+    vec4 texel(vec2 index) {
+      vec2 clamped = clamp(index, vec2(0.0), sourceSize - 1.0);
+      return texture2D(source, (clamped + 0.5) / sourceSize);
+    }
+
+    // Catmull-Rom weights for the four taps around t
+    vec4 cubicWeights(float t) {
+      float t2 = t * t;
+      float t3 = t2 * t;
+      return vec4(
+        -0.5 * t3 + t2 - 0.5 * t,
+        1.5 * t3 - 2.5 * t2 + 1.0,
+        -1.5 * t3 + 2.0 * t2 + 0.5 * t,
+        0.5 * t3 - 0.5 * t2
+      );
+    }
+
+    vec4 bicubic(vec2 p) {
+      vec2 q = p - 0.5;
+      vec2 i = floor(q);
+      vec2 f = q - i;
+      vec4 wx = cubicWeights(f.x);
+      vec4 wy = cubicWeights(f.y);
+      vec4 color = vec4(0.0);
+
+      for (int y = 0; y < 4; y++) {
+        vec4 row = wx.x * texel(i + vec2(-1.0, float(y) - 1.0))
+          + wx.y * texel(i + vec2(0.0, float(y) - 1.0))
+          + wx.z * texel(i + vec2(1.0, float(y) - 1.0))
+          + wx.w * texel(i + vec2(2.0, float(y) - 1.0));
+        float w = y == 0 ? wy.x : y == 1 ? wy.y : y == 2 ? wy.z : wy.w;
+        color += row * w;
+      }
+
+      return color;
+    }
+
+    void main() {
+      vec3 h = transform * vec3(gl_FragCoord.xy, 1.0);
+      vec2 p = h.xy / h.z;
+
+      vec2 inside = min(p, sourceSize - p);
+      float coverage = clamp(min(inside.x, inside.y) + 0.5, 0.0, 1.0);
+
+      vec4 color;
+      if (interpolator == 0.0) {
+        color = texel(floor(p));
+      } else if (interpolator == 1.0) {
+        vec2 clamped = clamp(p, vec2(0.5), sourceSize - 0.5);
+        color = texture2D(source, clamped / sourceSize);
+      } else {
+        color = bicubic(p);
+      }
+
+      gl_FragColor = mix(background, color, coverage);
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    sourceSize: (props) => [props.source.width, props.source.height],
+    transform: (props) => props.transform,
+    background: (props) => props.background,
+    interpolator: (props) => interpolators[props.interpolator],
+  },
+};
+
+// Converts a row-major 2x2 or 3x3 input into a column-major Mat3
+export function toMat3(matrix: AffineMatrix): Mat3 {
+  const flat = matrix.flat();
+
+  if (flat.length === 4) {
+    const [a, b, c, d] = flat;
+    return [a, c, 0, b, d, 0, 0, 0, 1];
+  }
+
+  if (flat.length === 9) {
+    const [a, b, c, d, e, f, g, h, i] = flat;
+    return [a, d, g, b, e, h, c, f, i];
+  }
+
+  throw new Error("Affine matrix must be 2x2 or 3x3");
+}
+
+/**
+ * Builds the target -> source pixel matrix used by the warp program for a
+ * forward transform expressed in image coordinates (y down, top-left
+ * origin), returning it with the size of the transformed bounds.
+ */
+export function warpLayout(source: Size, forward: Mat3) {
+  const corners = [
+    transformPoint3(forward, 0, 0),
+    transformPoint3(forward, source.width, 0),
+    transformPoint3(forward, 0, source.height),
+    transformPoint3(forward, source.width, source.height),
+  ];
+
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  const width = Math.max(1, Math.ceil(Math.max(...xs) - minX - 1e-6));
+  const height = Math.max(1, Math.ceil(Math.max(...ys) - minY - 1e-6));
+
+  // Pixel coordinates in framebuffers grow upwards
+  const fromTarget: Mat3 = [1, 0, 0, 0, -1, 0, 0, height, 1];
+  const toSource: Mat3 = [1, 0, 0, 0, -1, 0, 0, source.height, 1];
+
+  const placed = multiply3(translate3(-minX, -minY), forward);
+  const transform = multiply3(toSource, multiply3(invert3(placed), fromTarget));
+
+  return { width, height, transform };
+}
+
+/**
+ * Warp layout for the affine parameters. The bounds fit the transformed
+ * image, the offsets then move the content within them.
+ */
+export function affineLayout(source: Size, params: AffineParams) {
+  const { idx = 0, idy = 0, odx = 0, ody = 0 } = params;
+  const layout = warpLayout(source, toMat3(params.matrix));
+
+  // Offsets are in image coordinates, where y grows downwards
+  const transform = multiply3(
+    translate3(-idx, idy),
+    multiply3(layout.transform, translate3(-odx, ody)),
+  );
+
+  return { ...layout, transform };
+}
+
+export class AffineOperation extends BaseOperation {
+  params: AffineParams;
+
+  constructor(params: AffineParams) {
+    super();
+    this.params = params;
+  }
+
+  run(ctx: OperationContext) {
+    const source = ctx.source;
+
+    if (!source) {
+      throw new Error("Source texture is required");
+    }
+
+    const { width, height, transform } = affineLayout(source, this.params);
+
+    ctx.target.texture.resize(width, height);
+
+    const program = ctx.renderer.program(warpProgram);
+    ctx.target.use(() => {
+      program.draw({
+        source,
+        transform,
+        background: this.params.background ?? [0, 0, 0, 1],
+        interpolator: this.params.interpolator ?? "bicubic",
+      });
+    });
+  }
+}
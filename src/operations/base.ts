@@ -6,15 +6,36 @@ import {
 } from "../gl";
 
 import { COPY } from "../programs";
+import { Colorspace } from "../utils/colorspace";
 
 export type OperationContext = {
   renderer: GLRenderer;
   source?: GLTexture;
   target: GLFramebuffer;
+  // Channels of the source image, 4 when unknown
+  channels?: number;
+  // Whether the source holds linear-light rather than encoded values
+  linear?: boolean;
+  // Color space of the source values, sRGB when unknown
+  colorspace?: Colorspace;
 };
 
 export abstract class BaseOperation {
+  // Built for encoded values, linear-light pipelines encode around it
+  encoded = false;
+
   abstract run(ctx: OperationContext): void;
+
+  // Resolves asynchronous inputs before rendering
+  async prepare(): Promise<void> {}
+
+  // Channels of the output image for a given input channel count
+  channels(input: number): number {
+    return input;
+  }
+
+  // Frees GPU resources, recreated if the operation runs again
+  dispose(): void {}
 }
 
 export class ProgramOperation<Props extends {} = {}> extends BaseOperation {
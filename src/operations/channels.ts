@@ -0,0 +1,282 @@
+import { GLProgramDefinition, GLTexture } from "../gl";
+import { ImageInput } from "../utils/image";
+import { Vec4 } from "../utils/vector";
+import { OperationContext, ProgramOperation } from "./base";
+import { ImageInputTexture } from "./input";
+
+export type ChannelName = "red" | "green" | "blue" | "alpha";
+
+export type BandboolOperator = "and" | "or" | "eor";
+
+const hasAlpha = (channels: number) => channels === 2 || channels === 4;
+
+// Source channel selection, single-channel results are stored as gray
+const extractChannelProgram: GLProgramDefinition<{
+  source: GLTexture;
+  channel: Vec4;
+}> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform vec4 channel;
+    varying vec2 uv;
+
+    void main() {
+      float value = dot(texture2D(source, uv), channel);
+      gl_FragColor = vec4(vec3(value), 1.0);
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    channel: (props) => props.channel,
+  },
+};
+
+const channelIndices: Record<ChannelName, number> = {
+  red: 0,
+  green: 1,
+  blue: 2,
+  alpha: 3,
+};
+
+export class ExtractChannelOperation extends ProgramOperation<{
+  source: GLTexture;
+  channel: Vec4;
+}> {
+  channel: ChannelName | number;
+
+  constructor(channel: ChannelName | number) {
+    super(extractChannelProgram);
+    this.channel = channel;
+  }
+
+  getProps(ctx: OperationContext) {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    const channels = ctx.channels ?? 4;
+    const index =
+      typeof this.channel === "number"
+        ? this.channel
+        : channelIndices[this.channel];
+
+    if (!Number.isInteger(index) || index < 0 || index > 3) {
+      throw new Error(`Invalid channel: ${this.channel}`);
+    }
+
+    // Gray images keep their band in red, alpha is always stored last
+    const bands = channels <= 2 ? [0, 3] : [0, 1, 2, 3];
+    const stored =
+      index === 3
+        ? hasAlpha(channels)
+          ? 3
+          : -1
+        : (bands.slice(0, channels)[index] ?? -1);
+
+    if (stored < 0) {
+      throw new Error(
+        `Cannot extract channel ${this.channel} from a ${channels} channel image`,
+      );
+    }
+
+    const channel: Vec4 = [0, 0, 0, 0];
+    channel[stored] = 1;
+    return { source: ctx.source, channel };
+  }
+
+  channels() {
+    return 1;
+  }
+}
+
+type AlphaUniforms = {
+  source: GLTexture;
+  alpha: GLTexture;
+  mode: number;
+  value: number;
+};
+
+// Sets alpha to a constant (mode 0), another image's red (mode 1) or keeps it (mode 2)
+const alphaProgram: GLProgramDefinition<AlphaUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform sampler2D alpha;
+    uniform float mode;
+    uniform float value;
+    varying vec2 uv;
+
+    void main() {
+      vec4 color = texture2D(source, uv);
+      float a = mode == 0.0 ? value : mode == 1.0 ? texture2D(alpha, uv).r : color.a;
+      gl_FragColor = vec4(color.rgb, a);
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    alpha: (props) => props.alpha,
+    mode: (props) => props.mode,
+    value: (props) => props.value,
+  },
+};
+
+export class RemoveAlphaOperation extends ProgramOperation<AlphaUniforms> {
+  constructor() {
+    super(alphaProgram);
+  }
+
+  getProps(ctx: OperationContext): AlphaUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    return { source: ctx.source, alpha: ctx.source, mode: 0, value: 1 };
+  }
+
+  channels(input: number) {
+    return hasAlpha(input) ? input - 1 : input;
+  }
+}
+
+export class EnsureAlphaOperation extends ProgramOperation<AlphaUniforms> {
+  alpha: number;
+
+  constructor(alpha = 1) {
+    super(alphaProgram);
+    this.alpha = alpha;
+  }
+
+  getProps(ctx: OperationContext): AlphaUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    // Existing alpha is kept as is
+    const present = hasAlpha(ctx.channels ?? 4);
+    return {
+      source: ctx.source,
+      alpha: ctx.source,
+      mode: present ? 2 : 0,
+      value: this.alpha,
+    };
+  }
+
+  channels(input: number) {
+    return hasAlpha(input) ? input : input + 1;
+  }
+}
+
+export class JoinChannelOperation extends ProgramOperation<AlphaUniforms> {
+  private image: ImageInputTexture;
+
+  constructor(image: ImageInput) {
+    super(alphaProgram);
+    this.image = new ImageInputTexture(image);
+  }
+
+  async prepare() {
+    await this.image.load();
+  }
+
+  getProps(ctx: OperationContext): AlphaUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    return {
+      source: ctx.source,
+      alpha: this.image.get(ctx.renderer),
+      mode: 1,
+      value: 1,
+    };
+  }
+
+  // The joined image becomes alpha, replacing any existing one
+  channels(input: number) {
+    return hasAlpha(input) ? input : input + 1;
+  }
+
+  dispose() {
+    this.image.dispose();
+  }
+}
+
+type BandboolUniforms = {
+  source: GLTexture;
+  mode: number;
+  bands: number;
+};
+
+const operators: Record<BandboolOperator, number> = {
+  and: 0,
+  or: 1,
+  eor: 2,
+};
+
+// Bitwise boolean across bands, emulated bit by bit without integer ops
+const bandboolProgram: GLProgramDefinition<BandboolUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform float mode;
+    uniform float bands;
+    varying vec2 uv;
+
+    void main() {
+      vec4 value = floor(texture2D(source, uv) * 255.0 + 0.5);
+      float result = 0.0;
+      float weight = 1.0;
+
+      for (int bit = 0; bit < 8; bit++) {
+        vec4 bits = mod(floor(value / weight), 2.0);
+        float r = bits.r;
+
+        for (int band = 1; band < 4; band++) {
+          if (float(band) >= bands) break;
+          float b = band == 1 ? bits.g : band == 2 ? bits.b : bits.a;
+          if (mode == 0.0) r = r * b;
+          else if (mode == 1.0) r = max(r, b);
+          else r = mod(r + b, 2.0);
+        }
+
+        result += r * weight;
+        weight *= 2.0;
+      }
+
+      gl_FragColor = vec4(vec3(result / 255.0), 1.0);
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    mode: (props) => props.mode,
+    bands: (props) => props.bands,
+  },
+};
+
+export class BandboolOperation extends ProgramOperation<BandboolUniforms> {
+  operator: BandboolOperator;
+
+  constructor(operator: BandboolOperator) {
+    super(bandboolProgram);
+    this.operator = operator;
+  }
+
+  getProps(ctx: OperationContext): BandboolUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    // Gray images keep their band in red, only RGB(A) has more bands
+    const channels = ctx.channels ?? 4;
+    return {
+      source: ctx.source,
+      mode: operators[this.operator],
+      bands: channels >= 3 ? channels : 1,
+    };
+  }
+
+  channels() {
+    return 1;
+  }
+}
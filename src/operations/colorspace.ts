@@ -0,0 +1,252 @@
+import { GLFramebuffer, GLTexture, GLProgramDefinition } from "../gl";
+import { ProgramOperation, OperationContext } from "./base";
+import {
+  Colorspace,
+  colorspaceMatrix,
+  TransferCurve,
+  transferCurves,
+} from "../utils/colorspace";
+import { identity3, Mat3 } from "../utils/matrix";
+
+const curveIds: Record<TransferCurve, number> = {
+  linear: 0,
+  srgb: 1,
+  rec2020: 2,
+};
+
+// Uniform value selecting the curve of a color space in `transferChunk`
+export function transferCurveId(colorspace: Colorspace, linear = false) {
+  return linear ? 0 : curveIds[transferCurves[colorspace]];
+}
+
+// Piecewise sRGB transfer functions (IEC 61966-2-1)
+export const srgbChunk = /* glsl */ `
+  vec3 srgbToLinear(vec3 c) {
+    vec3 low = c / 12.92;
+    vec3 high = pow((c + 0.055) / 1.055, vec3(2.4));
+    return mix(high, low, vec3(lessThanEqual(c, vec3(0.04045))));
+  }
+
+  vec3 linearToSrgb(vec3 c) {
+    c = max(c, 0.0);
+    vec3 low = c * 12.92;
+    vec3 high = 1.055 * pow(c, vec3(1.0 / 2.4)) - 0.055;
+    return mix(high, low, vec3(lessThanEqual(c, vec3(0.0031308))));
+  }
+`;
+
+// Transfer curves selected by id: 0 (linear), 1 (sRGB) or 2 (Rec.2020)
+export const transferChunk = /* glsl */ `
+  ${srgbChunk}
+
+  vec3 rec2020ToLinear(vec3 c) {
+    vec3 low = c / 4.5;
+    vec3 high = pow((c + 0.0993) / 1.0993, vec3(1.0 / 0.45));
+    return mix(high, low, vec3(lessThan(c, vec3(0.08145))));
+  }
+
+  vec3 linearToRec2020(vec3 c) {
+    c = max(c, 0.0);
+    vec3 low = c * 4.5;
+    vec3 high = 1.0993 * pow(c, vec3(0.45)) - 0.0993;
+    return mix(high, low, vec3(lessThan(c, vec3(0.0181))));
+  }
+
+  vec3 decodeCurve(vec3 c, float curve) {
+    if (curve == 1.0) return srgbToLinear(c);
+    if (curve == 2.0) return rec2020ToLinear(c);
+    return c;
+  }
+
+  vec3 encodeCurve(vec3 c, float curve) {
+    if (curve == 1.0) return linearToSrgb(c);
+    if (curve == 2.0) return linearToRec2020(c);
+    return c;
+  }
+`;
+
+export type ColorspaceUniforms = {
+  source: GLTexture;
+  decode: number;
+  matrix: Mat3;
+  encode: number;
+};
+
+// Decodes to linear light, converts primaries, then encodes
+const colorspaceProgram: GLProgramDefinition<ColorspaceUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform float decode;
+    uniform mat3 matrix;
+    uniform float encode;
+    varying vec2 uv;
+
+    ${transferChunk}
+
+    void main() {
+      vec4 color = texture2D(source, uv);
+      vec3 rgb = decodeCurve(color.rgb, decode);
+      rgb = encodeCurve(matrix * rgb, encode);
+      gl_FragColor = vec4(rgb, color.a);
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    decode: (props) => props.decode,
+    matrix: (props) => props.matrix,
+    encode: (props) => props.encode,
+  },
+};
+
+export type ColorspaceParams = {
+  from: Colorspace;
+  to: Colorspace;
+};
+
+// Converts between color spaces, pipelines in linear light skip the curves
+export class ColorspaceOperation extends ProgramOperation<ColorspaceUniforms> {
+  params: ColorspaceParams;
+
+  constructor(params: ColorspaceParams) {
+    super(colorspaceProgram);
+    this.params = params;
+  }
+
+  getProps(ctx: OperationContext): ColorspaceUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    const { from, to } = this.params;
+    return {
+      source: ctx.source,
+      decode: transferCurveId(from, ctx.linear),
+      matrix: colorspaceMatrix(from, to),
+      encode: transferCurveId(to, ctx.linear),
+    };
+  }
+}
+
+export type ColorMatrixParams = {
+  matrix: Mat3;
+  colorspace: Colorspace;
+};
+
+// Applies a matrix to the linear-light values of a color space
+export class ColorMatrixOperation extends ProgramOperation<ColorspaceUniforms> {
+  params: ColorMatrixParams;
+
+  constructor(params: ColorMatrixParams) {
+    super(colorspaceProgram);
+    this.params = params;
+  }
+
+  getProps(ctx: OperationContext): ColorspaceUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    const curve = transferCurveId(this.params.colorspace, ctx.linear);
+    return {
+      source: ctx.source,
+      decode: curve,
+      matrix: this.params.matrix,
+      encode: curve,
+    };
+  }
+}
+
+export type Transfer = "decode" | "encode";
+
+// Converts between encoded and linear-light values of a color space
+export class TransferOperation extends ProgramOperation<ColorspaceUniforms> {
+  transfer: Transfer;
+  colorspace: Colorspace;
+
+  constructor(transfer: Transfer, colorspace: Colorspace = "srgb") {
+    super(colorspaceProgram);
+    this.transfer = transfer;
+    this.colorspace = colorspace;
+  }
+
+  getProps(ctx: OperationContext): ColorspaceUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    const curve = transferCurveId(this.colorspace);
+    return {
+      source: ctx.source,
+      decode: this.transfer === "decode" ? curve : 0,
+      matrix: identity3(),
+      encode: this.transfer === "encode" ? curve : 0,
+    };
+  }
+}
+
+/**
+ * Runs an operation on encoded or linear-light values, converting the source
+ * and the result with the transfer curve of the pipeline color space through
+ * scratch buffers at least as precise as half float.
+ * Pipelines already holding the wanted values run the operation as is.
+ */
+export class TransferScope {
+  private input?: GLFramebuffer;
+  private output?: GLFramebuffer;
+
+  private buffer(ctx: OperationContext, source: GLTexture) {
+    const { width, height } = source;
+    const type =
+      source.params.type === "uint8"
+        ? ctx.renderer.renderableType("half")
+        : source.params.type;
+    return ctx.renderer.framebuffer(
+      ctx.renderer.texture({ width, height, type }),
+    );
+  }
+
+  run(
+    ctx: OperationContext,
+    linear: boolean,
+    run: (ctx: OperationContext) => void,
+  ) {
+    const source = ctx.source;
+
+    if (!!ctx.linear === linear) {
+      run(ctx);
+      return;
+    }
+
+    if (!source) {
+      throw new Error("Source texture is required");
+    }
+
+    this.input ??= this.buffer(ctx, source);
+    this.output ??= this.buffer(ctx, source);
+    this.input.texture.resize(source.width, source.height);
+    this.output.texture.resize(source.width, source.height);
+
+    const colorspace = ctx.colorspace ?? "srgb";
+    const output = this.output;
+    new TransferOperation(linear ? "decode" : "encode", colorspace).run({
+      ...ctx,
+      target: this.input,
+    });
+
+    run({ ...ctx, source: this.input.texture, target: output, linear });
+
+    ctx.target.texture.resize(output.texture.width, output.texture.height);
+    new TransferOperation(linear ? "encode" : "decode", colorspace).run({
+      ...ctx,
+      source: output.texture,
+    });
+  }
+
+  dispose() {
+    this.input?.dispose();
+    this.output?.dispose();
+    this.input = undefined;
+    this.output = undefined;
+  }
+}
@@ -0,0 +1,97 @@
+import { GLProgramDefinition, GLTexture } from "../gl";
+import { ImageInput } from "../utils/image";
+import { Vec4 } from "../utils/vector";
+import { OperationContext, ProgramOperation } from "./base";
+import { ImageInputTexture } from "./input";
+
+export type DisplaceChannel = "r" | "g" | "b" | "a";
+
+export type DisplaceParams = {
+  // Maximum offsets in pixels, reached at channel values of 0 and 1
+  scaleX?: number;
+  scaleY?: number;
+  // Map channels driving the horizontal and vertical offsets
+  channels?: [DisplaceChannel, DisplaceChannel];
+};
+
+export type DisplaceUniforms = {
+  source: GLTexture;
+  map: GLTexture;
+  scale: [number, number];
+  channelX: Vec4;
+  channelY: Vec4;
+};
+
+const masks: Record<DisplaceChannel, Vec4> = {
+  r: [1, 0, 0, 0],
+  g: [0, 1, 0, 0],
+  b: [0, 0, 1, 0],
+  a: [0, 0, 0, 1],
+};
+
+// Offsets sample coordinates by map values centered on 0.5
+const displaceProgram: GLProgramDefinition<DisplaceUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform sampler2D map;
+    uniform vec2 sourceSize;
+    uniform vec2 scale;
+    uniform vec4 channelX;
+    uniform vec4 channelY;
+    varying vec2 uv;
+
+    void main() {
+      vec4 value = texture2D(map, uv);
+      vec2 offset = vec2(dot(value, channelX), dot(value, channelY)) - 0.5;
+
+      // Positive offsets point right and down in image space
+      vec2 p = uv + offset * scale * vec2(2.0, -2.0) / sourceSize;
+      vec2 texel = 0.5 / sourceSize;
+      gl_FragColor = texture2D(source, clamp(p, texel, 1.0 - texel));
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    map: (props) => props.map,
+    sourceSize: (props) => [props.source.width, props.source.height],
+    scale: (props) => props.scale,
+    channelX: (props) => props.channelX,
+    channelY: (props) => props.channelY,
+  },
+};
+
+export class DisplaceOperation extends ProgramOperation<DisplaceUniforms> {
+  params: DisplaceParams;
+  private map: ImageInputTexture;
+
+  constructor(map: ImageInput, params: DisplaceParams = {}) {
+    super(displaceProgram);
+    this.map = new ImageInputTexture(map);
+    this.params = params;
+  }
+
+  async prepare() {
+    await this.map.load();
+  }
+
+  getProps(ctx: OperationContext): DisplaceUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    const [x, y] = this.params.channels ?? ["r", "g"];
+
+    return {
+      source: ctx.source,
+      map: this.map.get(ctx.renderer),
+      scale: [this.params.scaleX ?? 0, this.params.scaleY ?? 0],
+      channelX: masks[x],
+      channelY: masks[y],
+    };
+  }
+
+  dispose() {
+    this.map.dispose();
+  }
+}
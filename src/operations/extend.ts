@@ -0,0 +1,126 @@
+import { GLMap, GLProgramDefinition, GLTexture } from "../gl";
+import { Mat3, scaleOffset3 } from "../utils/matrix";
+import { Vec4 } from "../utils/vector";
+import { OperationContext, ProgramOperation } from "./base";
+
+export type ExtendWith = "background" | "copy" | "repeat" | "mirror";
+
+export type ExtendParams = {
+  top?: number;
+  bottom?: number;
+  left?: number;
+  right?: number;
+  background?: Vec4;
+  extendWith?: ExtendWith;
+};
+
+export type ExtendUniforms = {
+  source: GLTexture;
+  transform: Mat3;
+  background: Vec4;
+  fill: boolean;
+};
+
+const extendProgram: GLProgramDefinition<ExtendUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform mat3 transform;
+    uniform vec4 background;
+    uniform bool fill;
+    varying vec2 uv;
+
+    void main() {
+      vec2 p = (transform * vec3(uv, 1.0)).xy;
+
+      if (fill && (p.x < 0.0 || p.y < 0.0 || p.x > 1.0 || p.y > 1.0)) {
+        gl_FragColor = background;
+        return;
+      }
+
+      gl_FragColor = texture2D(source, p);
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    transform: (props) => props.transform,
+    background: (props) => props.background,
+    fill: (props) => props.fill,
+  },
+};
+
+// Edge modes are resolved by the texture wrap of the source
+const wraps: Record<ExtendWith, keyof GLMap["wrap"]> = {
+  background: "clamp",
+  copy: "clamp",
+  repeat: "repeat",
+  mirror: "mirror",
+};
+
+export class ExtendOperation extends ProgramOperation<ExtendUniforms> {
+  params: ExtendParams;
+
+  constructor(params: ExtendParams = {}) {
+    super(extendProgram);
+    this.params = params;
+  }
+
+  private get padding() {
+    const { top = 0, bottom = 0, left = 0, right = 0 } = this.params;
+
+    for (const value of [top, bottom, left, right]) {
+      if (!Number.isInteger(value) || value < 0) {
+        throw new Error("Extend values must be non-negative integers");
+      }
+    }
+
+    return { top, bottom, left, right };
+  }
+
+  getProps(ctx: OperationContext): ExtendUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    const { width, height } = ctx.source;
+    const { left, bottom } = this.padding;
+    const target = ctx.target.texture;
+
+    // Map target uv back to source uv, with y growing upwards
+    const transform = scaleOffset3(
+      [target.width / width, target.height / height],
+      [-left / width, -bottom / height],
+    );
+
+    return {
+      source: ctx.source,
+      transform,
+      background: this.params.background ?? [0, 0, 0, 1],
+      fill: (this.params.extendWith ?? "background") === "background",
+    };
+  }
+
+  run(ctx: OperationContext) {
+    const source = ctx.source;
+
+    if (!source) {
+      throw new Error("Source texture is required");
+    }
+
+    const { top, bottom, left, right } = this.padding;
+    const wrap = wraps[this.params.extendWith ?? "background"];
+    const { wrapS, wrapT } = source.params;
+
+    ctx.target.texture.resize(
+      source.width + left + right,
+      source.height + top + bottom,
+    );
+
+    source.setSampler({ wrapS: wrap, wrapT: wrap });
+    try {
+      super.run(ctx);
+    } finally {
+      source.setSampler({ wrapS, wrapT });
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { GLTexture } from "../gl";
+import { TRANSFORM } from "../programs";
+import { Mat3, scaleOffset3 } from "../utils/matrix";
+import { OperationContext, ProgramOperation } from "./base";
+import { Region } from "./resize";
+
+export type ExtractParams = Region;
+
+export type ExtractUniforms = {
+  source: GLTexture;
+  transform: Mat3;
+};
+
+export class ExtractOperation extends ProgramOperation<ExtractUniforms> {
+  region: Region;
+
+  constructor(region: ExtractParams) {
+    super(TRANSFORM);
+    this.region = region;
+  }
+
+  getProps(ctx: OperationContext): ExtractUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    const { width, height } = ctx.source;
+    const { left, top } = this.region;
+
+    // Map target uv onto the region, flipping top to the uv origin
+    const transform = scaleOffset3(
+      [this.region.width / width, this.region.height / height],
+      [left / width, 1 - (top + this.region.height) / height],
+    );
+
+    return { source: ctx.source, transform };
+  }
+
+  run(ctx: OperationContext) {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    const { width, height } = ctx.source;
+    const { left, top } = this.region;
+
+    if (
+      !Number.isInteger(left) ||
+      !Number.isInteger(top) ||
+      !Number.isInteger(this.region.width) ||
+      !Number.isInteger(this.region.height) ||
+      this.region.width <= 0 ||
+      this.region.height <= 0
+    ) {
+      throw new Error(
+        "Extract region requires integer left/top and positive integer width/height",
+      );
+    }
+
+    if (
+      left < 0 ||
+      top < 0 ||
+      left + this.region.width > width ||
+      top + this.region.height > height
+    ) {
+      throw new Error(
+        `Extract region ${this.region.width}x${this.region.height}+${left}+${top} is outside the ${width}x${height} image`,
+      );
+    }
+
+    ctx.target.texture.resize(this.region.width, this.region.height);
+    super.run(ctx);
+  }
+}
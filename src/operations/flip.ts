@@ -0,0 +1,57 @@
+import { GLTexture } from "../gl";
+import { TRANSFORM } from "../programs";
+import { Mat3, multiply3, identity3 } from "../utils/matrix";
+import { OperationContext, ProgramOperation } from "./base";
+
+export type FlipParams = {
+  // Mirror vertically, about the x axis
+  flip?: boolean;
+  // Mirror horizontally, about the y axis
+  flop?: boolean;
+};
+
+export type FlipUniforms = {
+  source: GLTexture;
+  transform: Mat3;
+};
+
+const FLIP: Mat3 = [1, 0, 0, 0, -1, 0, 0, 1, 1];
+const FLOP: Mat3 = [-1, 0, 0, 0, 1, 0, 1, 0, 1];
+
+export class FlipOperation extends ProgramOperation<FlipUniforms> {
+  params: FlipParams;
+
+  constructor(params: FlipParams = {}) {
+    super(TRANSFORM);
+    this.params = params;
+  }
+
+  getProps(ctx: OperationContext): FlipUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    let transform = identity3();
+    if (this.params.flip) transform = multiply3(transform, FLIP);
+    if (this.params.flop) transform = multiply3(transform, FLOP);
+
+    return { source: ctx.source, transform };
+  }
+
+  // Mirrored texel centers line up exactly, sample them without filtering
+  run(ctx: OperationContext) {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    const source = ctx.source;
+    const { minFilter, magFilter } = source.params;
+
+    source.setSampler({ minFilter: "nearest", magFilter: "nearest" });
+    try {
+      super.run(ctx);
+    } finally {
+      source.setSampler({ minFilter, magFilter });
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { GLTexture, GLProgramDefinition } from "../gl";
+import { ProgramOperation, OperationContext } from "./base";
+import { ImageInputTexture } from "./input";
+import { lut3dChunk } from "./lut3d";
+import { haldLevel } from "../utils/hald";
+import { ImageInput } from "../utils/image";
+
+export type HaldClutUniforms = {
+  source: GLTexture;
+  clut: GLTexture;
+  level: number;
+  strength: number;
+};
+
+// Entry (r, g, b) sits at x = r + size * (g mod level), y = b * level +
+// floor(g / level) counted from the top, as the image is uploaded flipped
+const haldClutProgram: GLProgramDefinition<HaldClutUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform sampler2D clut;
+    uniform float level;
+    uniform float strength;
+    varying vec2 uv;
+
+    vec3 lutFetch(vec3 index) {
+      float size = level * level;
+      float width = size * level;
+      vec2 texel = vec2(
+        index.r + size * mod(index.g, level),
+        index.b * level + floor(index.g / level)
+      ) + 0.5;
+      return texture2D(clut, vec2(texel.x / width, 1.0 - texel.y / width)).rgb;
+    }
+
+    ${lut3dChunk}
+
+    void main() {
+      vec4 color = texture2D(source, uv);
+      vec3 graded = lut3d(color.rgb, level * level, 1.0);
+      vec3 result = mix(color.rgb, graded, strength);
+      gl_FragColor = vec4(clamp(result, 0.0, 1.0), color.a);
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    clut: (props) => props.clut,
+    level: (props) => props.level,
+    strength: (props) => props.strength,
+  },
+};
+
+export type HaldClutParams = {
+  // Mix between the original (0) and graded (1) colors
+  strength?: number;
+};
+
+export class HaldClutOperation extends ProgramOperation<HaldClutUniforms> {
+  encoded = true;
+  params: HaldClutParams;
+  private clut: ImageInputTexture;
+
+  constructor(clut: ImageInput, params: HaldClutParams = {}) {
+    super(haldClutProgram);
+    // The CLUT holds data rather than colors, upload it untouched
+    this.clut = new ImageInputTexture(clut, {
+      colorspaceConversion: false,
+      premultiplyAlpha: false,
+    });
+    this.params = params;
+  }
+
+  async prepare() {
+    await this.clut.load();
+  }
+
+  getProps(ctx: OperationContext): HaldClutUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    const clut = this.clut.get(ctx.renderer);
+    clut.setSampler({ minFilter: "nearest", magFilter: "nearest" });
+
+    return {
+      source: ctx.source,
+      clut,
+      level: haldLevel(clut.width, clut.height),
+      strength: this.params.strength ?? 1,
+    };
+  }
+
+  dispose() {
+    this.clut.dispose();
+  }
+}
@@ -0,0 +1,185 @@
+import { GLProgramDefinition, GLRenderer, GLTexture, isWebGL2 } from "../gl";
+import { Vec4 } from "../utils/vector";
+
+export type HistogramChannel = "r" | "g" | "b" | "a" | "luma";
+
+export type HistogramParams = {
+  bins?: number;
+  channels?: HistogramChannel[];
+};
+
+export type Histogram = Partial<Record<HistogramChannel, Uint32Array>>;
+
+type HistogramUniforms = {
+  source: GLTexture;
+  channel: Vec4;
+  bins: number;
+  target: number;
+  rows: number;
+};
+
+const weights: Record<HistogramChannel, Vec4> = {
+  r: [1, 0, 0, 0],
+  g: [0, 1, 0, 0],
+  b: [0, 0, 1, 0],
+  a: [0, 0, 0, 1],
+  luma: [0.2126, 0.7152, 0.0722, 0],
+};
+
+// Float32 counts stay exact up to 2^24, each chunk of pixels gets its own row
+const CHUNK = 1 << 24;
+
+// Scatters one point per source pixel onto its bin, counted by blending.
+// Pixels come from the vertex index, WebGL2 shaders need #version first
+const histogramProgram: GLProgramDefinition<HistogramUniforms> = {
+  vert: /* glsl */ `#version 300 es
+    precision highp float;
+    uniform highp sampler2D source;
+    uniform vec2 sourceSize;
+    uniform vec4 channel;
+    uniform float bins;
+    uniform float target;
+    uniform float rows;
+
+    void main() {
+      int width = int(sourceSize.x);
+      ivec2 pixel = ivec2(gl_VertexID % width, gl_VertexID / width);
+      float chunk = float(gl_VertexID / ${CHUNK});
+
+      vec4 color = texelFetch(source, pixel, 0);
+      float bin = clamp(floor(dot(color, channel) * bins), 0.0, bins - 1.0);
+      vec2 position = (vec2(bin, target + chunk) + 0.5) / vec2(bins, rows);
+      gl_Position = vec4(position * 2.0 - 1.0, 0.0, 1.0);
+      gl_PointSize = 1.0;
+    }
+  `,
+  frag: /* glsl */ `#version 300 es
+    precision mediump float;
+    out vec4 count;
+
+    void main() {
+      count = vec4(1.0, 0.0, 0.0, 0.0);
+    }
+  `,
+  attributes: {},
+  uniforms: {
+    source: (props) => props.source,
+    sourceSize: (props) => [props.source.width, props.source.height],
+    channel: (props) => props.channel,
+    bins: (props) => props.bins,
+    target: (props) => props.target,
+    rows: (props) => props.rows,
+  },
+  primitive: "points",
+  count: (props) => props.source.width * props.source.height,
+  blend: {
+    enabled: true,
+    srcFactor: "one",
+    dstFactor: "one",
+    equation: "add",
+  },
+};
+
+function computeOnGPU(
+  renderer: GLRenderer,
+  source: GLTexture,
+  bins: number,
+  channels: HistogramChannel[],
+) {
+  const chunks = Math.ceil((source.width * source.height) / CHUNK);
+  const rows = channels.length * chunks;
+  const counts = renderer.framebuffer(
+    renderer.texture({
+      width: bins,
+      height: rows,
+      type: "float",
+      minFilter: "nearest",
+      magFilter: "nearest",
+    }),
+  );
+
+  try {
+    const program = renderer.program(histogramProgram);
+
+    // One draw per channel scatters every pixel at once
+    counts.use(() => {
+      renderer.clear([0, 0, 0, 0]);
+      channels.forEach((name, index) => {
+        program.draw({
+          source,
+          channel: weights[name],
+          bins,
+          target: index * chunks,
+          rows,
+        });
+      });
+    });
+
+    const data = counts.readFloat();
+    const histogram: Histogram = {};
+
+    // Chunk rows are summed as integers
+    channels.forEach((name, index) => {
+      const values = new Uint32Array(bins);
+      for (let row = index * chunks; row < (index + 1) * chunks; row++) {
+        for (let bin = 0; bin < bins; bin++) {
+          values[bin] += Math.round(data[(row * bins + bin) * 4]);
+        }
+      }
+      histogram[name] = values;
+    });
+
+    return histogram;
+  } finally {
+    counts.dispose();
+  }
+}
+
+// Reads every pixel back without WebGL2 or float blending
+function computeOnCPU(
+  renderer: GLRenderer,
+  source: GLTexture,
+  bins: number,
+  channels: HistogramChannel[],
+) {
+  const framebuffer = renderer.framebuffer(source);
+  const data = framebuffer.readNormalized();
+  renderer.gl.deleteFramebuffer(framebuffer.handle);
+
+  const histogram: Histogram = {};
+
+  for (const name of channels) {
+    const [r, g, b, a] = weights[name];
+    const values = new Uint32Array(bins);
+
+    for (let i = 0; i < data.length; i += 4) {
+      const value =
+        data[i] * r + data[i + 1] * g + data[i + 2] * b + data[i + 3] * a;
+      const bin = Math.floor(value * bins);
+      values[Math.min(Math.max(bin, 0), bins - 1)] += 1;
+    }
+
+    histogram[name] = values;
+  }
+
+  return histogram;
+}
+
+export function computeHistogram(
+  renderer: GLRenderer,
+  source: GLTexture,
+  params: HistogramParams = {},
+): Histogram {
+  const bins = params.bins ?? 256;
+  const channels = params.channels ?? ["r", "g", "b", "a", "luma"];
+
+  if (!Number.isInteger(bins) || bins < 1) {
+    throw new Error("Histogram bins must be a positive integer");
+  }
+
+  if (isWebGL2(renderer.gl) && renderer.supportsFloatBlend) {
+    return computeOnGPU(renderer, source, bins, channels);
+  }
+
+  return computeOnCPU(renderer, source, bins, channels);
+}
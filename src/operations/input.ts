@@ -0,0 +1,75 @@
+import { GLRenderer, GLTexture, GLTextureParams } from "../gl";
+import {
+  decodeImage,
+  ImageInput,
+  imageSize,
+  isRenderable,
+} from "../utils/image";
+
+export type ImageInputParams = Partial<
+  Pick<GLTextureParams, "colorspaceConversion" | "premultiplyAlpha">
+>;
+
+/**
+ * Secondary image used by an operation. URLs are decoded and pipelines are
+ * rendered while preparing, then uploaded on first use by the renderer.
+ */
+export class ImageInputTexture {
+  readonly input: ImageInput;
+  readonly params: ImageInputParams;
+  private image?: TexImageSource;
+  private texture?: GLTexture;
+  private dirty = false;
+
+  constructor(input: ImageInput, params: ImageInputParams = {}) {
+    this.input = input;
+    this.params = params;
+  }
+
+  async load() {
+    const input = this.input;
+
+    if (typeof input === "string") {
+      this.image ??= await decodeImage(input);
+    } else if (isRenderable(input)) {
+      // Pipelines may change between renders, snapshot them every time
+      const canvas = document.createElement("canvas");
+      await input.toCanvas(canvas);
+      this.image = canvas;
+      this.dirty = true;
+    } else {
+      this.image = input;
+    }
+  }
+
+  get(renderer: GLRenderer) {
+    if (!this.image) {
+      throw new Error("Image input is not loaded");
+    }
+
+    const { width, height } = imageSize(this.image);
+
+    // Secondary inputs are always converted to sRGB, if at all
+    renderer.setUnpackColorspace("srgb");
+
+    if (!this.texture) {
+      this.texture = renderer.texture({
+        ...this.params,
+        width,
+        height,
+        data: this.image,
+        flipY: true,
+      });
+    } else if (this.dirty) {
+      this.texture.update({ width, height, data: this.image });
+    }
+
+    this.dirty = false;
+    return this.texture;
+  }
+
+  dispose() {
+    this.texture?.dispose();
+    this.texture = undefined;
+  }
+}
@@ -1,36 +1,73 @@
 import { GLTexture, GLProgramDefinition } from "../gl";
 import { ProgramOperation, OperationContext } from "./base";
 
+export type LUTCurve = number[] | ((x: number) => number);
+
+export type LUTCurves = {
+  master?: LUTCurve;
+  red?: LUTCurve;
+  green?: LUTCurve;
+  blue?: LUTCurve;
+};
+
 export type LUTParams = {
-  lut?: number[] | ((x: number) => number);
+  lut?: LUTCurve;
+  // Per-channel curves, takes precedence over `lut`
+  curves?: LUTCurves;
 };
 
 export type LUTUniforms = {
   source: GLTexture;
   lut: GLTexture;
+  curves: number;
 };
 
+// The LUT texture holds red, green, blue and master curves in RGBA, the
+// luminance curve uses red
 const lutProgram: GLProgramDefinition<LUTUniforms> = {
   frag: /* glsl */ `
     precision mediump float;
     uniform sampler2D source;
     uniform sampler2D lut;
+    uniform float curves;
     varying vec2 uv;
 
     const vec3 LUMA = vec3(0.2126, 0.7152, 0.0722);
 
+    // Samples texel centers so 0 and 1 map to the first and last entries
+    vec4 lookup(float x) {
+      return texture2D(lut, vec2(x * (255.0 / 256.0) + 0.5 / 256.0, 0.5));
+    }
+
     void main() {
       vec4 color = texture2D(source, uv);
-      float lum = dot(color.rgb, LUMA);
-      float newLum = texture2D(lut, vec2(lum, 0.0)).r;
-      float scale = lum > 1e-5 ? newLum / lum : 0.0;
-      vec3 result = color.rgb * scale;
+      vec3 result;
+
+      if (curves > 0.5) {
+        vec3 channels = vec3(
+          lookup(color.r).r,
+          lookup(color.g).g,
+          lookup(color.b).b
+        );
+        result = vec3(
+          lookup(channels.r).a,
+          lookup(channels.g).a,
+          lookup(channels.b).a
+        );
+      } else {
+        float lum = dot(color.rgb, LUMA);
+        float newLum = lookup(lum).r;
+        float scale = lum > 1e-4 ? newLum / lum : 0.0;
+        result = color.rgb * scale;
+      }
+
       gl_FragColor = vec4(clamp(result, 0.0, 1.0), color.a);
     }
   `,
   uniforms: {
     source: (props) => props.source,
     lut: (props) => props.lut,
+    curves: (props) => props.curves,
   },
 };
 
@@ -48,15 +85,20 @@ function createLerp(src: number[]) {
   };
 }
 
+const identity: LUTCurve = [0, 1];
+
 export class LUTOperation extends ProgramOperation<LUTUniforms> {
+  encoded = true;
   private lut?: LUTParams["lut"];
+  private curves?: LUTParams["curves"];
   private texture?: GLTexture;
-  private lastLut?: LUTParams["lut"];
-  private readonly data = new Uint8ClampedArray(256);
+  private lastCurves?: LUTCurve[];
+  private readonly data = new Uint8ClampedArray(256 * 4);
 
   constructor(params: LUTParams = {}) {
     super(lutProgram);
     this.lut = params.lut;
+    this.curves = params.curves;
   }
 
   private ensureTexture(ctx: OperationContext) {
@@ -64,7 +106,7 @@ export class LUTOperation extends ProgramOperation<LUTUniforms> {
       this.texture = ctx.renderer.texture({
         width: 256,
         height: 1,
-        format: "luminance",
+        format: "rgba",
         data: this.data,
         minFilter: "linear",
         magFilter: "linear",
@@ -75,18 +117,31 @@ export class LUTOperation extends ProgramOperation<LUTUniforms> {
     return this.texture;
   }
 
-  private updateTexture(lut: LUTParams["lut"]) {
-    const target = lut ?? [0, 1];
-    if (target === this.lastLut) {
-      return;
+  // Red, green, blue and master curves in texture channel order
+  private channelCurves(): LUTCurve[] {
+    if (this.curves) {
+      const { red, green, blue, master } = this.curves;
+      return [red, green, blue, master].map((curve) => curve ?? identity);
     }
-    this.lastLut = target;
 
-    const interpolate =
-      typeof target === "function" ? target : createLerp(target);
-    for (let i = 0; i < 256; i++) {
-      this.data[i] = interpolate(i / 255) * 255;
+    const lut = this.lut ?? identity;
+    return [lut, identity, identity, identity];
+  }
+
+  private updateTexture() {
+    const curves = this.channelCurves();
+    if (curves.every((curve, i) => curve === this.lastCurves?.[i])) {
+      return;
     }
+    this.lastCurves = curves;
+
+    curves.forEach((curve, channel) => {
+      const interpolate =
+        typeof curve === "function" ? curve : createLerp(curve);
+      for (let i = 0; i < 256; i++) {
+        this.data[i * 4 + channel] = interpolate(i / 255) * 255;
+      }
+    });
 
     this.texture?.update({
       data: this.data,
@@ -98,15 +153,17 @@ export class LUTOperation extends ProgramOperation<LUTUniforms> {
       throw new Error("Source texture is required");
     }
     const texture = this.ensureTexture(ctx);
-    this.updateTexture(this.lut);
+    this.updateTexture();
 
     return {
       source: ctx.source,
       lut: texture,
+      curves: this.curves ? 1 : 0,
     };
   }
 
   dispose() {
     this.texture?.dispose();
+    this.texture = undefined;
   }
 }
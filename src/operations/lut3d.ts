@@ -0,0 +1,206 @@
+import { GLTexture, GLProgramDefinition, GLRenderer } from "../gl";
+import { ProgramOperation, OperationContext } from "./base";
+import { CubeLUT, parseCube } from "../utils/cube";
+import { Vec3 } from "../utils/vector";
+
+export type LUT3DInterpolation = "trilinear" | "tetrahedral";
+
+/**
+ * Interpolates a color through a 3D lattice. Programs including this chunk
+ * define `vec3 lutFetch(vec3 index)` returning the lattice entry at integer
+ * red, green and blue indices.
+ */
+export const lut3dChunk = /* glsl */ `
+  vec3 lut3d(vec3 color, float size, float tetrahedral) {
+    vec3 p = clamp(color, 0.0, 1.0) * (size - 1.0);
+    vec3 base = min(floor(p), vec3(size - 2.0));
+    vec3 f = p - base;
+
+    vec3 c000 = lutFetch(base);
+    vec3 c111 = lutFetch(base + 1.0);
+
+    if (tetrahedral > 0.5) {
+      // Walk from c000 to c111 along the edges of the tetrahedron holding p,
+      // ordered by the largest fractional component first
+      vec3 s1;
+      vec3 s2;
+      vec3 w;
+      if (f.r >= f.g && f.g >= f.b) {
+        s1 = vec3(1.0, 0.0, 0.0); s2 = vec3(1.0, 1.0, 0.0); w = f.rgb;
+      } else if (f.r >= f.b && f.b >= f.g) {
+        s1 = vec3(1.0, 0.0, 0.0); s2 = vec3(1.0, 0.0, 1.0); w = f.rbg;
+      } else if (f.b >= f.r && f.r >= f.g) {
+        s1 = vec3(0.0, 0.0, 1.0); s2 = vec3(1.0, 0.0, 1.0); w = f.brg;
+      } else if (f.g >= f.r && f.r >= f.b) {
+        s1 = vec3(0.0, 1.0, 0.0); s2 = vec3(1.0, 1.0, 0.0); w = f.grb;
+      } else if (f.g >= f.b && f.b >= f.r) {
+        s1 = vec3(0.0, 1.0, 0.0); s2 = vec3(0.0, 1.0, 1.0); w = f.gbr;
+      } else {
+        s1 = vec3(0.0, 0.0, 1.0); s2 = vec3(0.0, 1.0, 1.0); w = f.bgr;
+      }
+
+      vec3 c1 = lutFetch(base + s1);
+      vec3 c2 = lutFetch(base + s2);
+      return c000 + w.x * (c1 - c000) + w.y * (c2 - c1) + w.z * (c111 - c2);
+    }
+
+    vec3 c100 = lutFetch(base + vec3(1.0, 0.0, 0.0));
+    vec3 c010 = lutFetch(base + vec3(0.0, 1.0, 0.0));
+    vec3 c110 = lutFetch(base + vec3(1.0, 1.0, 0.0));
+    vec3 c001 = lutFetch(base + vec3(0.0, 0.0, 1.0));
+    vec3 c101 = lutFetch(base + vec3(1.0, 0.0, 1.0));
+    vec3 c011 = lutFetch(base + vec3(0.0, 1.0, 1.0));
+
+    vec3 c00 = mix(c000, c100, f.r);
+    vec3 c10 = mix(c010, c110, f.r);
+    vec3 c01 = mix(c001, c101, f.r);
+    vec3 c11 = mix(c011, c111, f.r);
+    return mix(mix(c00, c10, f.g), mix(c01, c11, f.g), f.b);
+  }
+`;
+
+export type LUT3DUniforms = {
+  source: GLTexture;
+  lut: GLTexture;
+  size: number;
+  grid: number;
+  atlas: [number, number];
+  domainMin: Vec3;
+  domainScale: Vec3;
+  tetrahedral: number;
+  strength: number;
+};
+
+// Blue slices are tiled in a grid, each slice spanning red (x) and green (y)
+const lut3dProgram: GLProgramDefinition<LUT3DUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform sampler2D lut;
+    uniform float size;
+    uniform float grid;
+    uniform vec2 atlas;
+    uniform vec3 domainMin;
+    uniform vec3 domainScale;
+    uniform float tetrahedral;
+    uniform float strength;
+    varying vec2 uv;
+
+    vec3 lutFetch(vec3 index) {
+      vec2 slice = vec2(mod(index.b, grid), floor(index.b / grid));
+      vec2 texel = slice * size + index.rg + 0.5;
+      return texture2D(lut, texel / atlas).rgb;
+    }
+
+    ${lut3dChunk}
+
+    void main() {
+      vec4 color = texture2D(source, uv);
+      vec3 graded = lut3d((color.rgb - domainMin) * domainScale, size, tetrahedral);
+      vec3 result = mix(color.rgb, graded, strength);
+      gl_FragColor = vec4(clamp(result, 0.0, 1.0), color.a);
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    lut: (props) => props.lut,
+    size: (props) => props.size,
+    grid: (props) => props.grid,
+    atlas: (props) => props.atlas,
+    domainMin: (props) => props.domainMin,
+    domainScale: (props) => props.domainScale,
+    tetrahedral: (props) => props.tetrahedral,
+    strength: (props) => props.strength,
+  },
+};
+
+export type LUT3DParams = {
+  // `.cube` file contents or a parsed LUT
+  lut: string | CubeLUT;
+  interpolation?: LUT3DInterpolation;
+  // Mix between the original (0) and graded (1) colors
+  strength?: number;
+};
+
+// Packs the lattice into RGBA texels, float when the renderer can sample it
+function createAtlas(renderer: GLRenderer, lut: CubeLUT, grid: number) {
+  const { size, data } = lut;
+  const width = grid * size;
+  const height = Math.ceil(size / grid) * size;
+  const float = renderer.supportsFloatTextures;
+  const pixels = float
+    ? new Float32Array(width * height * 4)
+    : new Uint8Array(width * height * 4);
+
+  for (let b = 0; b < size; b++) {
+    const left = (b % grid) * size;
+    const top = Math.floor(b / grid) * size;
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const src = ((b * size + g) * size + r) * 3;
+        const dst = ((top + g) * width + left + r) * 4;
+        for (let c = 0; c < 3; c++) {
+          pixels[dst + c] = float
+            ? data[src + c]
+            : Math.round(Math.min(Math.max(data[src + c], 0), 1) * 255);
+        }
+        pixels[dst + 3] = float ? 1 : 255;
+      }
+    }
+  }
+
+  return renderer.texture({
+    width,
+    height,
+    data: pixels,
+    type: float ? "float" : "uint8",
+    minFilter: "nearest",
+    magFilter: "nearest",
+  });
+}
+
+export class LUT3DOperation extends ProgramOperation<LUT3DUniforms> {
+  encoded = true;
+  params: LUT3DParams;
+  readonly lut: CubeLUT;
+  private texture?: GLTexture;
+
+  constructor(params: LUT3DParams) {
+    super(lut3dProgram);
+    this.params = params;
+    this.lut =
+      typeof params.lut === "string" ? parseCube(params.lut) : params.lut;
+  }
+
+  getProps(ctx: OperationContext): LUT3DUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    const { size, domainMin, domainMax } = this.lut;
+    const grid = Math.ceil(Math.sqrt(size));
+    this.texture ??= createAtlas(ctx.renderer, this.lut, grid);
+
+    return {
+      source: ctx.source,
+      lut: this.texture,
+      size,
+      grid,
+      atlas: [this.texture.width, this.texture.height],
+      domainMin,
+      domainScale: [
+        1 / (domainMax[0] - domainMin[0]),
+        1 / (domainMax[1] - domainMin[1]),
+        1 / (domainMax[2] - domainMin[2]),
+      ],
+      tetrahedral:
+        (this.params.interpolation ?? "tetrahedral") === "tetrahedral" ? 1 : 0,
+      strength: this.params.strength ?? 1,
+    };
+  }
+
+  dispose() {
+    this.texture?.dispose();
+    this.texture = undefined;
+  }
+}
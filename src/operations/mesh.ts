@@ -0,0 +1,160 @@
+import { GLAttribute, GLBuffer, GLProgramDefinition, GLTexture } from "../gl";
+import { Point } from "../utils/homography";
+import { OperationContext, ProgramOperation } from "./base";
+
+export type MeshGrid = {
+  columns: number;
+  rows: number;
+  // Row-major control points in normalized image coordinates (0-1, top-left
+  // origin), giving where each regular grid vertex lands in the output
+  points: Point[];
+};
+
+// Vertex buffers of a grid, triangulated two triangles per cell
+type MeshBuffers = {
+  position: GLAttribute;
+  texcoord: GLAttribute;
+  elements: GLBuffer;
+  count: number;
+};
+
+type MeshUniforms = {
+  source: GLTexture;
+  mesh: MeshBuffers;
+};
+
+// Draws the source over the displaced grid, interpolating within each cell
+const meshProgram: GLProgramDefinition<MeshUniforms> = {
+  vert: /* glsl */ `
+    precision mediump float;
+    attribute vec2 position;
+    attribute vec2 texcoord;
+    varying vec2 uv;
+
+    void main() {
+      uv = texcoord;
+      gl_Position = vec4(position, 0.0, 1.0);
+    }
+  `,
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    varying vec2 uv;
+
+    void main() {
+      gl_FragColor = texture2D(source, uv);
+    }
+  `,
+  attributes: {
+    position: (props) => props.mesh.position,
+    texcoord: (props) => props.mesh.texcoord,
+  },
+  uniforms: {
+    source: (props) => props.source,
+  },
+  elements: (props) => props.mesh.elements,
+  primitive: "triangles",
+  indexType: "uint16",
+  count: (props) => props.mesh.count,
+};
+
+// Regular grid in normalized image coordinates, a starting point for warps
+export function createMeshGrid(columns: number, rows: number): MeshGrid {
+  const points: Point[] = [];
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < columns; i++) {
+      points.push([i / (columns - 1), j / (rows - 1)]);
+    }
+  }
+  return { columns, rows, points };
+}
+
+export class MeshWarpOperation extends ProgramOperation<MeshUniforms> {
+  grid: MeshGrid;
+  private mesh?: MeshBuffers;
+
+  constructor(grid: MeshGrid) {
+    const { columns, rows, points } = grid;
+
+    if (columns < 2 || rows < 2 || points.length !== columns * rows) {
+      throw new Error(
+        "Mesh grid requires at least 2x2 points and columns * rows points",
+      );
+    }
+
+    if (points.length > 65536) {
+      throw new Error("Mesh grid supports at most 65536 points");
+    }
+
+    super(meshProgram);
+    this.grid = grid;
+  }
+
+  private ensureMesh(ctx: OperationContext) {
+    if (this.mesh) {
+      return this.mesh;
+    }
+
+    const { columns, rows, points } = this.grid;
+
+    const positions: number[] = [];
+    const texcoords: number[] = [];
+    for (let j = 0; j < rows; j++) {
+      for (let i = 0; i < columns; i++) {
+        const [x, y] = points[j * columns + i];
+        positions.push(x * 2 - 1, 1 - y * 2);
+        texcoords.push(i / (columns - 1), 1 - j / (rows - 1));
+      }
+    }
+
+    const indices: number[] = [];
+    for (let j = 0; j < rows - 1; j++) {
+      for (let i = 0; i < columns - 1; i++) {
+        const a = j * columns + i;
+        const b = a + 1;
+        const c = a + columns;
+        const d = c + 1;
+        indices.push(a, b, c, b, d, c);
+      }
+    }
+
+    const renderer = ctx.renderer;
+    this.mesh = {
+      position: { buffer: renderer.buffer({ data: positions }), size: 2 },
+      texcoord: { buffer: renderer.buffer({ data: texcoords }), size: 2 },
+      elements: renderer.buffer({
+        target: "element",
+        data: new Uint16Array(indices),
+      }),
+      count: indices.length,
+    };
+    return this.mesh;
+  }
+
+  getProps(ctx: OperationContext): MeshUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    return { source: ctx.source, mesh: this.ensureMesh(ctx) };
+  }
+
+  run(ctx: OperationContext) {
+    const program = ctx.renderer.program(this.definition);
+
+    // Areas the mesh no longer covers stay transparent
+    ctx.target.use(() => {
+      ctx.renderer.clear([0, 0, 0, 0]);
+      program.draw(this.getProps(ctx));
+    });
+  }
+
+  dispose() {
+    if (this.mesh) {
+      this.mesh.position.buffer.dispose();
+      this.mesh.texcoord.buffer.dispose();
+      this.mesh.elements.dispose();
+      this.mesh = undefined;
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { GLTexture, GLProgramDefinition } from "../gl";
+import { Vec4 } from "../utils/vector";
+import { ProgramOperation, type OperationContext } from "./base";
+import { hslChunk } from "./modulate";
+
+export type ColorBand =
+  | "reds"
+  | "oranges"
+  | "yellows"
+  | "greens"
+  | "aquas"
+  | "blues"
+  | "purples"
+  | "magentas";
+
+export type ColorBandAdjustment = {
+  // -100 to 100, at most 30 degrees around the color wheel
+  hue?: number;
+  // -100 to 100, -100 removes the band's color and 100 doubles it
+  saturation?: number;
+  // -100 to 100, darkens or lightens the band
+  luminance?: number;
+};
+
+export type ColorMixerParams = Partial<Record<ColorBand, ColorBandAdjustment>>;
+
+// Bands in the order the shader packs them, four per vec4
+const colorBands: ColorBand[] = [
+  "reds",
+  "oranges",
+  "yellows",
+  "greens",
+  "aquas",
+  "blues",
+  "purples",
+  "magentas",
+];
+
+export type ColorMixerUniforms = {
+  source: GLTexture;
+  hueA: Vec4;
+  hueB: Vec4;
+  saturationA: Vec4;
+  saturationB: Vec4;
+  luminanceA: Vec4;
+  luminanceB: Vec4;
+};
+
+// Each band peaks at its center hue and fades out at its neighbours' centers,
+// so the weights always sum to one and adjacent bands blend without seams
+const colorMixerProgram: GLProgramDefinition<ColorMixerUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform vec4 hueA;
+    uniform vec4 hueB;
+    uniform vec4 saturationA;
+    uniform vec4 saturationB;
+    uniform vec4 luminanceA;
+    uniform vec4 luminanceB;
+    varying vec2 uv;
+
+    ${hslChunk}
+
+    float bandWeight(float h, float prev, float center, float next) {
+      float d = mod(h - center + 540.0, 360.0) - 180.0;
+      float width = d < 0.0 ? center - prev : next - center;
+      return 1.0 - smoothstep(0.0, width, abs(d));
+    }
+
+    void main() {
+      vec4 color = texture2D(source, uv);
+      vec3 hsl = rgb2hsl(color.rgb);
+      float h = hsl.x * 360.0;
+
+      vec4 weightA = vec4(
+        bandWeight(h, -60.0, 0.0, 30.0),
+        bandWeight(h, 0.0, 30.0, 60.0),
+        bandWeight(h, 30.0, 60.0, 120.0),
+        bandWeight(h, 60.0, 120.0, 180.0)
+      );
+      vec4 weightB = vec4(
+        bandWeight(h, 120.0, 180.0, 240.0),
+        bandWeight(h, 180.0, 240.0, 270.0),
+        bandWeight(h, 240.0, 270.0, 300.0),
+        bandWeight(h, 270.0, 300.0, 360.0)
+      );
+
+      float hue = dot(weightA, hueA) + dot(weightB, hueB);
+      float saturation = dot(weightA, saturationA) + dot(weightB, saturationB);
+      float luminance = dot(weightA, luminanceA) + dot(weightB, luminanceB);
+
+      // Grays have no reliable hue, so luminance fades in with saturation
+      hsl.z = clamp(hsl.z + 0.25 * luminance * hsl.y, 0.0, 1.0);
+      hsl.x = mod(hsl.x + hue / 360.0, 1.0);
+      hsl.y = clamp(hsl.y * (1.0 + saturation), 0.0, 1.0);
+
+      gl_FragColor = vec4(clamp(hsl2rgb(hsl), 0.0, 1.0), color.a);
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    hueA: (props) => props.hueA,
+    hueB: (props) => props.hueB,
+    saturationA: (props) => props.saturationA,
+    saturationB: (props) => props.saturationB,
+    luminanceA: (props) => props.luminanceA,
+    luminanceB: (props) => props.luminanceB,
+  },
+};
+
+const clamp = (value: number | undefined) =>
+  Math.min(Math.max(value ?? 0, -100), 100);
+
+export class ColorMixerOperation extends ProgramOperation<ColorMixerUniforms> {
+  encoded = true;
+  params: ColorMixerParams;
+
+  constructor(params: ColorMixerParams = {}) {
+    super(colorMixerProgram);
+    this.params = params;
+  }
+
+  getProps(ctx: OperationContext): ColorMixerUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    const values = (key: keyof ColorBandAdjustment, scale: number) =>
+      colorBands.map((band) => clamp(this.params[band]?.[key]) * scale);
+
+    const hue = values("hue", 0.3);
+    const saturation = values("saturation", 0.01);
+    const luminance = values("luminance", 0.01);
+
+    return {
+      source: ctx.source,
+      hueA: hue.slice(0, 4) as Vec4,
+      hueB: hue.slice(4) as Vec4,
+      saturationA: saturation.slice(0, 4) as Vec4,
+      saturationB: saturation.slice(4) as Vec4,
+      luminanceA: luminance.slice(0, 4) as Vec4,
+      luminanceB: luminance.slice(4) as Vec4,
+    };
+  }
+}
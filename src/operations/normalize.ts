@@ -0,0 +1,86 @@
+import { Vec4 } from "../utils/vector";
+import { BaseOperation, OperationContext } from "./base";
+import { computeHistogram, HistogramChannel } from "./histogram";
+import { LinearOperation } from "./linear";
+
+export type NormalizeParams = {
+  // Percentiles mapped to black and white
+  lower?: number;
+  upper?: number;
+  // Stretch R, G and B independently, correcting color casts
+  perChannel?: boolean;
+};
+
+const BINS = 256;
+
+// Value of the bin reached once `percentile` of the pixels are counted
+function percentile(counts: Uint32Array, value: number) {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  const threshold = (total * value) / 100;
+
+  let cumulative = 0;
+  for (let bin = 0; bin < counts.length; bin++) {
+    cumulative += counts[bin];
+    if (cumulative >= threshold && cumulative > 0) {
+      return bin / (counts.length - 1);
+    }
+  }
+
+  return 1;
+}
+
+export class NormalizeOperation extends BaseOperation {
+  // Percentiles and the stretch both apply to encoded values
+  encoded = true;
+  params: NormalizeParams;
+
+  constructor(params: NormalizeParams = {}) {
+    super();
+    this.params = params;
+  }
+
+  run(ctx: OperationContext) {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    const { lower = 1, upper = 99, perChannel = false } = this.params;
+
+    if (lower < 0 || upper > 100 || lower >= upper) {
+      throw new Error("Normalize requires 0 <= lower < upper <= 100");
+    }
+
+    // Measure the current output first, then stretch it in a linear pass
+    const channels: HistogramChannel[] = perChannel
+      ? ["r", "g", "b"]
+      : ["luma"];
+    const histogram = computeHistogram(ctx.renderer, ctx.source, {
+      bins: BINS,
+      channels,
+    });
+
+    const levels = channels.map((channel) => {
+      const counts = histogram[channel] ?? new Uint32Array(BINS);
+      const low = percentile(counts, lower);
+      const high = percentile(counts, upper);
+      return high > low ? [low, high] : [0, 1];
+    });
+
+    const [r, g, b] = perChannel ? levels : [levels[0], levels[0], levels[0]];
+
+    const multiply: Vec4 = [
+      1 / (r[1] - r[0]),
+      1 / (g[1] - g[0]),
+      1 / (b[1] - b[0]),
+      1,
+    ];
+    const add: Vec4 = [
+      -r[0] * multiply[0],
+      -g[0] * multiply[1],
+      -b[0] * multiply[2],
+      0,
+    ];
+
+    new LinearOperation({ multiply, add }).run(ctx);
+  }
+}
@@ -0,0 +1,92 @@
+import { computeHomography, Point, Quad } from "../utils/homography";
+import { invert3, Mat3, multiply3 } from "../utils/matrix";
+import { Vec4 } from "../utils/vector";
+import { Interpolator, warpProgram } from "./affine";
+import { BaseOperation, OperationContext } from "./base";
+import { Size } from "./resize";
+
+export type PerspectiveParams = {
+  // Source corners in pixels: top-left, top-right, bottom-right, bottom-left
+  from: Quad;
+  // Target corners, or the size of the rectangle `from` is mapped onto.
+  // Defaults to a rectangle matching the average edge lengths of `from`.
+  to?: Quad | Size;
+  background?: Vec4;
+  interpolator?: Interpolator;
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+function rectangle({ width, height }: Size): Quad {
+  return [
+    [0, 0],
+    [width, 0],
+    [width, height],
+    [0, height],
+  ];
+}
+
+export class PerspectiveOperation extends BaseOperation {
+  params: PerspectiveParams;
+
+  constructor(params: PerspectiveParams) {
+    super();
+    this.params = params;
+  }
+
+  private get target(): Quad {
+    const { from, to } = this.params;
+
+    if (Array.isArray(to)) {
+      return to;
+    }
+
+    if (to) {
+      return rectangle(to);
+    }
+
+    const [tl, tr, br, bl] = from;
+    return rectangle({
+      width: Math.round((distance(tl, tr) + distance(bl, br)) / 2),
+      height: Math.round((distance(tl, bl) + distance(tr, br)) / 2),
+    });
+  }
+
+  run(ctx: OperationContext) {
+    const source = ctx.source;
+
+    if (!source) {
+      throw new Error("Source texture is required");
+    }
+
+    const target = this.target;
+    const forward = computeHomography(this.params.from, target);
+
+    // Target points are in output pixels, starting at the top-left corner
+    const width = Math.max(1, Math.ceil(Math.max(...target.map(([x]) => x))));
+    const height = Math.max(
+      1,
+      Math.ceil(Math.max(...target.map(([, y]) => y))),
+    );
+
+    // Pixel coordinates in framebuffers grow upwards
+    const fromTarget: Mat3 = [1, 0, 0, 0, -1, 0, 0, height, 1];
+    const toSource: Mat3 = [1, 0, 0, 0, -1, 0, 0, source.height, 1];
+    const transform = multiply3(
+      toSource,
+      multiply3(invert3(forward), fromTarget),
+    );
+
+    ctx.target.texture.resize(width, height);
+
+    const program = ctx.renderer.program(warpProgram);
+    ctx.target.use(() => {
+      program.draw({
+        source,
+        transform,
+        background: this.params.background ?? [0, 0, 0, 1],
+        interpolator: this.params.interpolator ?? "bilinear",
+      });
+    });
+  }
+}
@@ -0,0 +1,77 @@
+import { GLTexture, GLProgramDefinition } from "../gl";
+import { ProgramOperation, OperationContext } from "./base";
+import { Vec3, Vec4 } from "../utils/vector";
+
+// Rows of output channels, each weighting the input channels
+export type RecombMatrix = [Vec3, Vec3, Vec3] | [Vec4, Vec4, Vec4, Vec4];
+
+export type RecombUniforms = {
+  source: GLTexture;
+  matrix: Float32Array;
+  offset: Vec4;
+};
+
+const recombProgram: GLProgramDefinition<RecombUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform mat4 matrix;
+    uniform vec4 offset;
+    varying vec2 uv;
+
+    void main() {
+      vec4 color = texture2D(source, uv);
+      gl_FragColor = clamp(matrix * color + offset, 0.0, 1.0);
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    matrix: (props) => props.matrix,
+    offset: (props) => props.offset,
+  },
+};
+
+export type RecombParams = {
+  matrix: RecombMatrix;
+  offset?: Vec3 | Vec4;
+};
+
+// Expands to a column-major mat4, a 3x3 matrix passes alpha through
+function toMat4(matrix: RecombMatrix) {
+  const size = matrix.length;
+  const out = new Float32Array(16);
+  out[15] = 1;
+
+  for (let row = 0; row < size; row++) {
+    if (matrix[row].length !== size) {
+      throw new Error("Recomb matrix must be 3x3 or 4x4");
+    }
+    for (let col = 0; col < size; col++) {
+      out[col * 4 + row] = matrix[row][col];
+    }
+  }
+
+  return out;
+}
+
+export class RecombOperation extends ProgramOperation<RecombUniforms> {
+  params: RecombParams;
+
+  constructor(params: RecombParams) {
+    super(recombProgram);
+    this.params = params;
+  }
+
+  getProps(ctx: OperationContext): RecombUniforms {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    const [r, g, b, a] = this.params.offset ?? [0, 0, 0, 0];
+    return {
+      source: ctx.source,
+      matrix: toMat4(this.params.matrix),
+      offset: [r, g, b, a ?? 0],
+    };
+  }
+}
@@ -0,0 +1,157 @@
+import {
+  GLFramebuffer,
+  GLProgramDefinition,
+  GLRenderer,
+  GLTexture,
+} from "../gl";
+
+export type ReduceMode = "max" | "min" | "mean";
+export type ReduceAxis = "x" | "y";
+
+export type ReduceResult = {
+  width: number;
+  height: number;
+  // RGBA values in 0-1
+  data: Float32Array;
+};
+
+type ReduceUniforms = {
+  source: GLTexture;
+  targetSize: [number, number];
+  direction: [number, number];
+  mode: ReduceMode;
+  tail: number;
+};
+
+const modes: Record<ReduceMode, number> = {
+  max: 0,
+  min: 1,
+  mean: 2,
+};
+
+// Combines pairs of texels along one axis, halving the texture size. Means
+// weigh the last texel by `tail`, the share of pixels it covers compared to
+// the others once the axis no longer halves evenly.
+const reduceProgram: GLProgramDefinition<ReduceUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform vec2 sourceSize;
+    uniform vec2 targetSize;
+    uniform vec2 direction;
+    uniform float mode;
+    uniform float tail;
+
+    void main() {
+      vec2 uv = gl_FragCoord.xy / targetSize;
+      vec2 other = uv * (1.0 - direction);
+      float n = dot(sourceSize, direction);
+      float k = floor(dot(gl_FragCoord.xy, direction)) * 2.0;
+
+      vec4 a = texture2D(source, other + direction * (k + 0.5) / n);
+
+      if (k + 1.0 >= n) {
+        gl_FragColor = a;
+        return;
+      }
+
+      vec4 b = texture2D(source, other + direction * (k + 1.5) / n);
+
+      if (mode == 0.0) {
+        gl_FragColor = max(a, b);
+      } else if (mode == 1.0) {
+        gl_FragColor = min(a, b);
+      } else {
+        float weight = k + 2.0 >= n ? tail : 1.0;
+        gl_FragColor = (a + b * weight) / (1.0 + weight);
+      }
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    sourceSize: (props) => [props.source.width, props.source.height],
+    targetSize: (props) => props.targetSize,
+    direction: (props) => props.direction,
+    mode: (props) => modes[props.mode],
+    tail: (props) => props.tail,
+  },
+};
+
+/**
+ * Collapses the given axes of a texture down to a single pixel and reads the
+ * remaining strip back, e.g. reducing "y" yields one value per column.
+ * Means are accumulated in float framebuffers when the GPU supports them.
+ */
+export function reduce(
+  renderer: GLRenderer,
+  source: GLTexture,
+  mode: ReduceMode,
+  axes: ReduceAxis[],
+): ReduceResult {
+  const program = renderer.program(reduceProgram);
+  const buffers: GLFramebuffer[] = [];
+
+  // Maxima and minima are exact in the source type, means are not
+  const type =
+    mode === "mean" ? renderer.renderableType("float") : source.params.type;
+
+  let texture = source;
+  let target: GLFramebuffer | undefined;
+
+  try {
+    for (const axis of axes) {
+      const direction: [number, number] = axis === "x" ? [1, 0] : [0, 1];
+      const length = axis === "x" ? texture.width : texture.height;
+
+      // Pixels covered by every texel but the last
+      let span = 1;
+
+      while ((axis === "x" ? texture.width : texture.height) > 1) {
+        const count = axis === "x" ? texture.width : texture.height;
+        const tail = (length - (count - 1) * span) / span;
+
+        const width =
+          axis === "x" ? Math.ceil(texture.width / 2) : texture.width;
+        const height =
+          axis === "y" ? Math.ceil(texture.height / 2) : texture.height;
+
+        const input = texture;
+        target = renderer.framebuffer(
+          renderer.texture({ width, height, type }),
+        );
+        buffers.push(target);
+
+        target.use(() => {
+          program.draw({
+            source: input,
+            targetSize: [width, height],
+            direction,
+            mode,
+            tail,
+          });
+        });
+
+        texture = target.texture;
+        span *= 2;
+      }
+    }
+
+    // Nothing to reduce, read the source through a temporary framebuffer
+    if (!target) {
+      target = renderer.framebuffer(source);
+      const data = target.readNormalized();
+      renderer.gl.deleteFramebuffer(target.handle);
+      return { width: source.width, height: source.height, data };
+    }
+
+    return {
+      width: texture.width,
+      height: texture.height,
+      data: target.readNormalized(),
+    };
+  } finally {
+    for (const buffer of buffers) {
+      buffer.dispose();
+    }
+  }
+}
@@ -1,61 +1,501 @@
-import { GLTexture } from "../gl";
-
-import { COPY } from "../programs";
-import { OperationContext, ProgramOperation } from "./base";
+import { GLTexture, GLProgramDefinition, GLFramebuffer } from "../gl";
+import { Vec4 } from "../utils/vector";
+import { BaseOperation, CopyOperation, OperationContext } from "./base";
+import { TransferScope } from "./colorspace";
 
 export type Size = {
   width: number;
   height: number;
 };
 
+export type Region = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+export type ResizeFit = "cover" | "contain" | "fill" | "inside" | "outside";
+
+export type ResizePosition =
+  | "centre"
+  | "center"
+  | "top"
+  | "right top"
+  | "right"
+  | "right bottom"
+  | "bottom"
+  | "left bottom"
+  | "left"
+  | "left top"
+  | "north"
+  | "northeast"
+  | "east"
+  | "southeast"
+  | "south"
+  | "southwest"
+  | "west"
+  | "northwest";
+
+export type ResizeKernel =
+  | "nearest"
+  | "linear"
+  | "cubic"
+  | "mitchell"
+  | "lanczos2"
+  | "lanczos3";
+
 export type ResizeParams = {
   width?: number;
   height?: number;
+  fit?: ResizeFit;
+  position?: ResizePosition;
+  background?: Vec4;
+  withoutEnlargement?: boolean;
+  withoutReduction?: boolean;
+  kernel?: ResizeKernel;
+  // Resample linear-light values, avoiding darkened edges and highlights
+  linear?: boolean;
 };
 
-export function computeSize(srcSize: Size, params: ResizeParams) {
-  if (params.width && params.height) {
-    return { width: params.width, height: params.height };
-  }
+export type ResizeLayout = Size & {
+  content: Region;
+};
 
+// Horizontal and vertical anchors, 0 being left/top and 1 right/bottom
+const positions: Record<ResizePosition, [number, number]> = {
+  centre: [0.5, 0.5],
+  center: [0.5, 0.5],
+  top: [0.5, 0],
+  "right top": [1, 0],
+  right: [1, 0.5],
+  "right bottom": [1, 1],
+  bottom: [0.5, 1],
+  "left bottom": [0, 1],
+  left: [0, 0.5],
+  "left top": [0, 0],
+  north: [0.5, 0],
+  northeast: [1, 0],
+  east: [1, 0.5],
+  southeast: [1, 1],
+  south: [0.5, 1],
+  southwest: [0, 1],
+  west: [0, 0.5],
+  northwest: [0, 0],
+};
+
+export function computeLayout(
+  srcSize: Size,
+  params: ResizeParams,
+): ResizeLayout {
   const aspect = srcSize.width / srcSize.height;
+  const fit = params.fit ?? "fill";
+
+  let width = params.width || 0;
+  let height = params.height || 0;
 
-  if (params.width) {
-    return { width: params.width, height: params.width / aspect };
+  if (!width && !height) {
+    width = srcSize.width;
+    height = srcSize.height;
+  } else if (!height) {
+    height = width / aspect;
+  } else if (!width) {
+    width = height * aspect;
   }
 
-  if (params.height) {
-    return { width: params.height * aspect, height: params.height };
+  let scaleX = width / srcSize.width;
+  let scaleY = height / srcSize.height;
+
+  if (fit === "cover" || fit === "outside") {
+    scaleX = scaleY = Math.max(scaleX, scaleY);
+  } else if (fit === "contain" || fit === "inside") {
+    scaleX = scaleY = Math.min(scaleX, scaleY);
+  }
+
+  const enlarging = scaleX > 1 || scaleY > 1;
+  const reducing = scaleX < 1 || scaleY < 1;
+
+  if (params.withoutEnlargement) {
+    scaleX = Math.min(scaleX, 1);
+    scaleY = Math.min(scaleY, 1);
+  }
+
+  if (params.withoutReduction) {
+    scaleX = Math.max(scaleX, 1);
+    scaleY = Math.max(scaleY, 1);
   }
 
-  return srcSize;
+  const contentWidth = Math.max(1, Math.round(srcSize.width * scaleX));
+  const contentHeight = Math.max(1, Math.round(srcSize.height * scaleY));
+
+  let outWidth = contentWidth;
+  let outHeight = contentHeight;
+
+  // Cover and contain keep the requested box, cropping or letterboxing
+  if (fit === "cover" || fit === "contain") {
+    outWidth = Math.max(1, Math.round(width));
+    outHeight = Math.max(1, Math.round(height));
+
+    if (params.withoutEnlargement && enlarging) {
+      outWidth = Math.min(outWidth, contentWidth);
+      outHeight = Math.min(outHeight, contentHeight);
+    }
+
+    if (params.withoutReduction && reducing && fit === "contain") {
+      outWidth = Math.max(outWidth, contentWidth);
+      outHeight = Math.max(outHeight, contentHeight);
+    }
+  }
+
+  const [anchorX, anchorY] = positions[params.position ?? "centre"];
+
+  return {
+    width: outWidth,
+    height: outHeight,
+    content: {
+      left: Math.round((outWidth - contentWidth) * anchorX),
+      top: Math.round((outHeight - contentHeight) * anchorY),
+      width: contentWidth,
+      height: contentHeight,
+    },
+  };
 }
 
-export class ResizeOperation extends ProgramOperation<{
+export function computeSize(srcSize: Size, params: ResizeParams): Size {
+  const { width, height } = computeLayout(srcSize, params);
+  return { width, height };
+}
+
+type Direction = [number, number];
+
+type KernelDefinition = {
+  id: number;
+  radius: number;
+  spline?: [number, number];
+};
+
+// Kernel ids match the branches of the resample shader
+const kernels: Record<ResizeKernel, KernelDefinition> = {
+  nearest: { id: 0, radius: 0.5 },
+  linear: { id: 1, radius: 1 },
+  cubic: { id: 2, radius: 2, spline: [0, 0.5] },
+  mitchell: { id: 2, radius: 2, spline: [1 / 3, 1 / 3] },
+  lanczos2: { id: 3, radius: 2 },
+  lanczos3: { id: 3, radius: 3 },
+};
+
+// Largest integer factor applied by a single box pre-shrink pass
+const MAX_SHRINK = 128;
+
+export type ShrinkUniforms = {
+  source: GLTexture;
+  targetSize: [number, number];
+  direction: Direction;
+};
+
+// Box filter averaging every source pixel under the output footprint
+const shrinkProgram: GLProgramDefinition<ShrinkUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform vec2 sourceSize;
+    uniform vec2 targetSize;
+    uniform vec2 direction;
+
+    #define MAX_FOOTPRINT 256
+
+    void main() {
+      vec2 uv = gl_FragCoord.xy / targetSize;
+      vec2 other = uv * (1.0 - direction);
+      float n = dot(sourceSize, direction);
+      float footprint = n / dot(targetSize, direction);
+      float start = (dot(gl_FragCoord.xy, direction) - 0.5) * footprint;
+      float end = start + footprint;
+      float first = floor(start);
+
+      vec4 color = vec4(0.0);
+
+      for (int i = 0; i <= MAX_FOOTPRINT; i++) {
+        float k = first + float(i);
+        if (k >= end) break;
+        float w = min(k + 1.0, end) - max(k, start);
+        color += texture2D(source, other + direction * (k + 0.5) / n) * w;
+      }
+
+      gl_FragColor = color / footprint;
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    sourceSize: (props) => [props.source.width, props.source.height],
+    targetSize: (props) => props.targetSize,
+    direction: (props) => props.direction,
+  },
+};
+
+export type ResampleUniforms = {
   source: GLTexture;
-}> {
+  targetSize: [number, number];
+  direction: Direction;
+  rect: Vec4;
+  background: Vec4;
+  letterbox: boolean;
+  kernel: KernelDefinition;
+};
+
+// Separable resampling along one axis, scaling the kernel on reduction
+const resampleProgram: GLProgramDefinition<ResampleUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform vec2 sourceSize;
+    uniform vec2 targetSize;
+    uniform vec2 direction;
+    uniform vec4 rect;
+    uniform vec4 background;
+    uniform bool letterbox;
+    uniform float kernel;
+    uniform float radius;
+    uniform vec2 spline;
+
+    #define MAX_TAPS 32
+    #define PI 3.14159265
+
+    float sinc(float x) {
+      if (x == 0.0) return 1.0;
+      x *= PI;
+      return sin(x) / x;
+    }
+
+    float bcSpline(float x) {
+      float b = spline.x;
+      float c = spline.y;
+      float x2 = x * x;
+      float x3 = x2 * x;
+      if (x < 1.0) {
+        return ((12.0 - 9.0 * b - 6.0 * c) * x3
+          + (-18.0 + 12.0 * b + 6.0 * c) * x2
+          + (6.0 - 2.0 * b)) / 6.0;
+      }
+      return ((-b - 6.0 * c) * x3
+        + (6.0 * b + 30.0 * c) * x2
+        + (-12.0 * b - 48.0 * c) * x
+        + (8.0 * b + 24.0 * c)) / 6.0;
+    }
+
+    float weight(float x) {
+      x = abs(x);
+      if (kernel == 1.0) return 1.0 - x;
+      if (kernel == 2.0) return bcSpline(x);
+      return sinc(x) * sinc(x / radius);
+    }
+
+    void main() {
+      vec2 uv = gl_FragCoord.xy / targetSize;
+      vec2 p = (uv - rect.xy) / rect.zw;
+
+      if (letterbox && (p.x < 0.0 || p.y < 0.0 || p.x > 1.0 || p.y > 1.0)) {
+        gl_FragColor = background;
+        return;
+      }
+
+      vec2 other = uv * (1.0 - direction);
+      float n = dot(sourceSize, direction);
+      float x = dot(p, direction) * n - 0.5;
+
+      if (kernel == 0.0) {
+        float k = clamp(floor(x + 0.5), 0.0, n - 1.0);
+        gl_FragColor = texture2D(source, other + direction * (k + 0.5) / n);
+        return;
+      }
+
+      float scale = min(dot(rect.zw * targetSize, direction) / n, 1.0);
+      float base = floor(x);
+      vec4 color = vec4(0.0);
+      float total = 0.0;
+
+      for (int i = -MAX_TAPS; i <= MAX_TAPS; i++) {
+        float k = base + float(i);
+        float d = (k - x) * scale;
+        if (abs(d) >= radius) continue;
+        float w = weight(d);
+        float t = clamp(k, 0.0, n - 1.0);
+        color += texture2D(source, other + direction * (t + 0.5) / n) * w;
+        total += w;
+      }
+
+      gl_FragColor = color / total;
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    sourceSize: (props) => [props.source.width, props.source.height],
+    targetSize: (props) => props.targetSize,
+    direction: (props) => props.direction,
+    rect: (props) => props.rect,
+    background: (props) => props.background,
+    letterbox: (props) => props.letterbox,
+    kernel: (props) => props.kernel.id,
+    radius: (props) => props.kernel.radius,
+    spline: (props) => props.kernel.spline ?? [0, 0],
+  },
+};
+
+// Integer box factor leaving a residual reduction between 2x and 4x
+function shrinkFactor(from: number, to: number) {
+  return Math.min(MAX_SHRINK, Math.max(1, Math.floor(from / to / 2)));
+}
+
+function isIdentity(source: Size, params: ResizeParams) {
+  const { width, height, content } = computeLayout(source, params);
+  return (
+    width === source.width &&
+    height === source.height &&
+    content.left === 0 &&
+    content.top === 0 &&
+    content.width === width &&
+    content.height === height
+  );
+}
+
+export class ResizeOperation extends BaseOperation {
   params: ResizeParams;
+  private buffers: GLFramebuffer[] = [];
+  private current = 0;
+  private linearLight = new TransferScope();
 
   constructor(params: ResizeParams) {
-    super(COPY);
+    super();
     this.params = params;
   }
 
-  getProps(ctx: OperationContext) {
-    if (!ctx.source) {
-      throw new Error("Source texture is required");
+  // Alternate between two scratch framebuffers for intermediate passes,
+  // matching the precision of the source
+  private nextBuffer(
+    source: GLTexture,
+    ctx: OperationContext,
+    width: number,
+    height: number,
+  ) {
+    this.current = (this.current + 1) % 2;
+
+    let buffer = this.buffers[this.current];
+    if (!buffer) {
+      buffer = ctx.renderer.framebuffer(
+        ctx.renderer.texture({ width, height, type: source.params.type }),
+      );
+      this.buffers[this.current] = buffer;
     }
 
-    return { source: ctx.source };
+    buffer.texture.resize(width, height);
+    return buffer;
+  }
+
+  private shrink(
+    ctx: OperationContext,
+    source: GLTexture,
+    direction: Direction,
+    factor: number,
+  ) {
+    const [x, y] = direction;
+    const width = x
+      ? Math.max(1, Math.round(source.width / factor))
+      : source.width;
+    const height = y
+      ? Math.max(1, Math.round(source.height / factor))
+      : source.height;
+
+    const target = this.nextBuffer(source, ctx, width, height);
+    const program = ctx.renderer.program(shrinkProgram);
+
+    target.use(() => {
+      program.draw({ source, targetSize: [width, height], direction });
+    });
+
+    return target.texture;
   }
 
   run(ctx: OperationContext) {
-    const previous = {
-      width: ctx.target.texture.width,
-      height: ctx.target.texture.height,
-    };
-    const size = computeSize(previous, this.params);
-    ctx.target.texture.resize(size.width, size.height);
-    super.run(ctx);
+    // Same-size layouts leave every pixel in place, copy without resampling
+    if (ctx.source && isIdentity(ctx.source, this.params)) {
+      new CopyOperation(ctx.source).run(ctx);
+      return;
+    }
+
+    if (this.params.linear) {
+      this.linearLight.run(ctx, true, (ctx) => this.resample(ctx));
+    } else {
+      this.resample(ctx);
+    }
+  }
+
+  private resample(ctx: OperationContext) {
+    let source = ctx.source;
+
+    if (!source) {
+      throw new Error("Source texture is required");
+    }
+
+    const { width, height, content } = computeLayout(source, this.params);
+    const kernel = kernels[this.params.kernel ?? "lanczos3"];
+
+    // Content rectangle in uv space, where y grows upwards
+    const rect: Vec4 = [
+      content.left / width,
+      1 - (content.top + content.height) / height,
+      content.width / width,
+      content.height / height,
+    ];
+
+    if (kernel.id !== kernels.nearest.id) {
+      const shrinkX = shrinkFactor(source.width, content.width);
+      const shrinkY = shrinkFactor(source.height, content.height);
+
+      if (shrinkX > 1) {
+        source = this.shrink(ctx, source, [1, 0], shrinkX);
+      }
+
+      if (shrinkY > 1) {
+        source = this.shrink(ctx, source, [0, 1], shrinkY);
+      }
+    }
+
+    const program = ctx.renderer.program(resampleProgram);
+    const background = this.params.background ?? [0, 0, 0, 1];
+
+    const horizontal = this.nextBuffer(source, ctx, width, source.height);
+    const input = source;
+    horizontal.use(() => {
+      program.draw({
+        source: input,
+        targetSize: [width, input.height],
+        direction: [1, 0],
+        rect,
+        background,
+        letterbox: false,
+        kernel,
+      });
+    });
+
+    ctx.target.texture.resize(width, height);
+    ctx.target.use(() => {
+      program.draw({
+        source: horizontal.texture,
+        targetSize: [width, height],
+        direction: [0, 1],
+        rect,
+        background,
+        letterbox: true,
+        kernel,
+      });
+    });
+  }
+
+  dispose() {
+    for (const buffer of this.buffers) {
+      buffer.dispose();
+    }
+    this.buffers = [];
+    this.linearLight.dispose();
   }
 }
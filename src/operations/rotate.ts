@@ -0,0 +1,109 @@
+import { GLTexture } from "../gl";
+import { TRANSFORM } from "../programs";
+import {
+  identity3,
+  Mat3,
+  multiply3,
+  rotate3,
+  translate3,
+} from "../utils/matrix";
+import { Vec4 } from "../utils/vector";
+import { warpProgram } from "./affine";
+import { BaseOperation, OperationContext } from "./base";
+
+export type RotateParams = {
+  // Clockwise, in degrees
+  angle: number;
+  background?: Vec4;
+};
+
+// Target uv -> source uv for clockwise quarter turns
+const quarterTurns: Record<number, Mat3> = {
+  90: [0, 1, 0, -1, 0, 0, 1, 0, 1],
+  180: [-1, 0, 0, 0, -1, 0, 1, 1, 1],
+  270: [0, -1, 0, 1, 0, 0, 0, 1, 1],
+};
+
+export class RotateOperation extends BaseOperation {
+  params: RotateParams;
+
+  constructor(params: RotateParams) {
+    super();
+    this.params = params;
+  }
+
+  get angle() {
+    return ((this.params.angle % 360) + 360) % 360;
+  }
+
+  // Lossless path, sampling texel centers only
+  private rotateQuarter(ctx: OperationContext, source: GLTexture) {
+    const angle = this.angle;
+    const swap = angle === 90 || angle === 270;
+    const { minFilter, magFilter } = source.params;
+
+    ctx.target.texture.resize(
+      swap ? source.height : source.width,
+      swap ? source.width : source.height,
+    );
+
+    const program = ctx.renderer.program(TRANSFORM);
+    const transform = quarterTurns[angle] ?? identity3();
+
+    source.setSampler({ minFilter: "nearest", magFilter: "nearest" });
+    try {
+      ctx.target.use(() => {
+        program.draw({ source, transform });
+      });
+    } finally {
+      source.setSampler({ minFilter, magFilter });
+    }
+  }
+
+  private rotateArbitrary(ctx: OperationContext, source: GLTexture) {
+    const radians = (this.angle * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(radians));
+    const sin = Math.abs(Math.sin(radians));
+
+    // Bounding box of the rotated image
+    const width = Math.max(
+      1,
+      Math.ceil(source.width * cos + source.height * sin - 1e-6),
+    );
+    const height = Math.max(
+      1,
+      Math.ceil(source.width * sin + source.height * cos - 1e-6),
+    );
+
+    ctx.target.texture.resize(width, height);
+
+    // Pixel coordinates grow upwards, so a clockwise turn of the image is
+    // undone by a counter-clockwise rotation around the centers
+    const transform = multiply3(
+      translate3(source.width / 2, source.height / 2),
+      multiply3(rotate3(radians), translate3(-width / 2, -height / 2)),
+    );
+
+    const program = ctx.renderer.program(warpProgram);
+    ctx.target.use(() => {
+      program.draw({
+        source,
+        transform,
+        background: this.params.background ?? [0, 0, 0, 1],
+        interpolator: "bilinear",
+      });
+    });
+  }
+
+  run(ctx: OperationContext) {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    if (this.angle % 90 === 0) {
+      this.rotateQuarter(ctx, ctx.source);
+    } else {
+      this.rotateArbitrary(ctx, ctx.source);
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { GLFramebuffer, GLProgramDefinition, GLTexture } from "../gl";
+import { BaseOperation, OperationContext } from "./base";
+import { BlurOperation } from "./blur";
+
+export type AdaptiveThreshold = {
+  // Blur radius of the local mean window, 1 to 32
+  radius?: number;
+  // Subtracted from the local mean, in 0-255 units
+  offset?: number;
+};
+
+export type ThresholdParams = {
+  // Cut-off in 0-255 units, pixels at or above it become white
+  value?: number;
+  // Binarize luma instead of each channel
+  grayscale?: boolean;
+  // Compare against the local mean instead of a global value
+  adaptive?: AdaptiveThreshold;
+};
+
+export type ThresholdUniforms = {
+  source: GLTexture;
+  mean: GLTexture;
+  adaptive: boolean;
+  threshold: number;
+  offset: number;
+  grayscale: boolean;
+};
+
+const thresholdProgram: GLProgramDefinition<ThresholdUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform sampler2D mean;
+    uniform bool adaptive;
+    uniform float threshold;
+    uniform float offset;
+    uniform bool grayscale;
+    varying vec2 uv;
+
+    const vec3 LUMA = vec3(0.2126, 0.7152, 0.0722);
+
+    void main() {
+      vec4 color = texture2D(source, uv);
+      vec3 edge = adaptive
+        ? texture2D(mean, uv).rgb - offset
+        : vec3(threshold);
+
+      if (grayscale) {
+        float value = step(dot(edge, LUMA), dot(color.rgb, LUMA));
+        gl_FragColor = vec4(vec3(value), color.a);
+      } else {
+        gl_FragColor = vec4(step(edge, color.rgb), color.a);
+      }
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    mean: (props) => props.mean,
+    adaptive: (props) => props.adaptive,
+    threshold: (props) => props.threshold,
+    offset: (props) => props.offset,
+    grayscale: (props) => props.grayscale,
+  },
+};
+
+export class ThresholdOperation extends BaseOperation {
+  encoded = true;
+  params: ThresholdParams;
+  private buffers: GLFramebuffer[] = [];
+
+  constructor(params: ThresholdParams = {}) {
+    super();
+    this.params = params;
+  }
+
+  private buffer(ctx: OperationContext, index: number, source: GLTexture) {
+    let buffer = this.buffers[index];
+    if (!buffer) {
+      buffer = ctx.renderer.framebuffer(
+        ctx.renderer.texture({
+          width: source.width,
+          height: source.height,
+          type: source.params.type,
+        }),
+      );
+      this.buffers[index] = buffer;
+    }
+    buffer.texture.resize(source.width, source.height);
+    return buffer;
+  }
+
+  // Local mean from the separable blur passes
+  private localMean(ctx: OperationContext, source: GLTexture, radius: number) {
+    const horizontal = this.buffer(ctx, 0, source);
+    const vertical = this.buffer(ctx, 1, source);
+
+    new BlurOperation({ radius, direction: [1, 0] }).run({
+      renderer: ctx.renderer,
+      source,
+      target: horizontal,
+    });
+    new BlurOperation({ radius, direction: [0, 1] }).run({
+      renderer: ctx.renderer,
+      source: horizontal.texture,
+      target: vertical,
+    });
+
+    return vertical.texture;
+  }
+
+  run(ctx: OperationContext) {
+    const source = ctx.source;
+
+    if (!source) {
+      throw new Error("Source texture is required");
+    }
+
+    const { value = 128, grayscale = true, adaptive } = this.params;
+    const radius = adaptive?.radius ?? 15;
+
+    // Blurs below one pixel draw nothing, leaving the mean buffer stale
+    if (adaptive && !(radius >= 1)) {
+      throw new Error("Adaptive threshold radius must be at least 1");
+    }
+
+    const mean = adaptive ? this.localMean(ctx, source, radius) : source;
+
+    // Half a step below the cut-off so 8-bit values equal to it pass
+    const program = ctx.renderer.program(thresholdProgram);
+    ctx.target.use(() => {
+      program.draw({
+        source,
+        mean,
+        adaptive: adaptive !== undefined,
+        threshold: (value - 0.5) / 255,
+        offset: ((adaptive?.offset ?? 10) + 0.5) / 255,
+        grayscale,
+      });
+    });
+  }
+
+  dispose() {
+    for (const buffer of this.buffers) {
+      buffer.dispose();
+    }
+    this.buffers = [];
+  }
+}
@@ -0,0 +1,179 @@
+import { GLProgramDefinition, GLTexture } from "../gl";
+import { Vec4 } from "../utils/vector";
+import { BaseOperation, OperationContext } from "./base";
+import { ExtractOperation } from "./extract";
+import { reduce } from "./reduce";
+import { Region } from "./resize";
+
+export type TrimParams = {
+  // Color to trim, defaults to the top-left pixel
+  background?: Vec4;
+  // Allowed difference from the background, in 0-255 units
+  threshold?: number;
+  // Skip the noise-reducing median filter, for line art and vector-like images
+  lineArt?: boolean;
+  // Receives the kept region, in pixels of the untrimmed image
+  onTrim?: (region: Region) => void;
+};
+
+export type TrimUniforms = {
+  source: GLTexture;
+  background: Vec4;
+  useBackground: boolean;
+  threshold: number;
+  lineArt: boolean;
+};
+
+// Marks every pixel that differs from the background color
+const maskProgram: GLProgramDefinition<TrimUniforms> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform vec2 sourceSize;
+    uniform vec4 background;
+    uniform bool useBackground;
+    uniform float threshold;
+    uniform bool lineArt;
+    varying vec2 uv;
+
+    void sort(inout vec4 a, inout vec4 b) {
+      vec4 t = a;
+      a = min(t, b);
+      b = max(t, b);
+    }
+
+    // Per-channel median of nine values, leaving it in v[4]
+    void median(inout vec4 v[9]) {
+      sort(v[0], v[3]); sort(v[1], v[4]); sort(v[2], v[5]);
+      sort(v[0], v[1]); sort(v[0], v[2]);
+      sort(v[4], v[5]); sort(v[3], v[5]);
+      sort(v[1], v[2]); sort(v[3], v[4]);
+      sort(v[1], v[3]); sort(v[1], v[6]);
+      sort(v[4], v[6]); sort(v[2], v[6]);
+      sort(v[2], v[3]); sort(v[4], v[7]);
+      sort(v[2], v[4]); sort(v[3], v[7]);
+      sort(v[4], v[8]); sort(v[3], v[8]);
+      sort(v[3], v[4]);
+    }
+
+    void main() {
+      vec2 texel = 1.0 / sourceSize;
+      vec4 reference = useBackground
+        ? background
+        : texture2D(source, vec2(0.5, sourceSize.y - 0.5) * texel);
+
+      vec4 color = vec4(0.0);
+
+      if (lineArt) {
+        color = texture2D(source, uv);
+      } else {
+        // A median drops isolated noise without spreading edges outwards
+        vec4 v[9];
+        for (int y = -1; y <= 1; y++) {
+          for (int x = -1; x <= 1; x++) {
+            v[(y + 1) * 3 + x + 1] =
+              texture2D(source, uv + vec2(float(x), float(y)) * texel);
+          }
+        }
+        median(v);
+        color = v[4];
+      }
+
+      vec4 diff = abs(color - reference) * 255.0;
+      float delta = max(max(diff.r, diff.g), max(diff.b, diff.a));
+      gl_FragColor = vec4(delta > threshold ? 1.0 : 0.0);
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    sourceSize: (props) => [props.source.width, props.source.height],
+    background: (props) => props.background,
+    useBackground: (props) => props.useBackground,
+    threshold: (props) => props.threshold,
+    lineArt: (props) => props.lineArt,
+  },
+};
+
+function span(data: Float32Array, length: number) {
+  let first = -1;
+  let last = -1;
+  for (let i = 0; i < length; i++) {
+    if (data[i * 4] > 0) {
+      if (first < 0) first = i;
+      last = i;
+    }
+  }
+  return [first, last];
+}
+
+// Kept region from the column and row maxima of the mask, whose rows start
+// at the bottom of the image
+export function maskRegion(
+  columns: Float32Array,
+  rows: Float32Array,
+  width: number,
+  height: number,
+): Region {
+  const [left, right] = span(columns, width);
+  const [bottom, top] = span(rows, height);
+
+  // Uniform image, nothing to trim
+  if (left < 0 || bottom < 0) {
+    return { left: 0, top: 0, width, height };
+  }
+
+  return {
+    left,
+    top: height - 1 - top,
+    width: right - left + 1,
+    height: top - bottom + 1,
+  };
+}
+
+export class TrimOperation extends BaseOperation {
+  params: TrimParams;
+  result?: Region;
+
+  constructor(params: TrimParams = {}) {
+    super();
+    this.params = params;
+  }
+
+  // Bounding box of the pixels that differ from the background
+  private measure(ctx: OperationContext, source: GLTexture): Region {
+    const { width, height } = source;
+    const renderer = ctx.renderer;
+    const mask = renderer.framebuffer(renderer.texture({ width, height }));
+
+    try {
+      const program = renderer.program(maskProgram);
+      mask.use(() => {
+        program.draw({
+          source,
+          background: this.params.background ?? [0, 0, 0, 1],
+          useBackground: this.params.background !== undefined,
+          threshold: this.params.threshold ?? 10,
+          lineArt: this.params.lineArt ?? false,
+        });
+      });
+
+      const columns = reduce(renderer, mask.texture, "max", ["y"]);
+      const rows = reduce(renderer, mask.texture, "max", ["x"]);
+
+      return maskRegion(columns.data, rows.data, width, height);
+    } finally {
+      mask.dispose();
+    }
+  }
+
+  run(ctx: OperationContext) {
+    if (!ctx.source) {
+      throw new Error("Source texture is required");
+    }
+
+    this.result = this.measure(ctx, ctx.source);
+    this.params.onTrim?.(this.result);
+
+    new ExtractOperation(this.result).run(ctx);
+  }
+}
@@ -0,0 +1,240 @@
+import { GLRenderer, GLTexture } from "../gl";
+import { BaseOperation, OperationContext } from "./base";
+import { ColorMatrixOperation, TransferScope } from "./colorspace";
+import { reduce } from "./reduce";
+import {
+  bradfordMatrix,
+  Colorspace,
+  colorspaceToXYZ,
+} from "../utils/colorspace";
+import { Point } from "../utils/homography";
+import { invert3, Mat3, multiply3, transformVector3 } from "../utils/matrix";
+import { Vec3 } from "../utils/vector";
+
+export type WhiteBalanceParams = {
+  // Color temperature of the scene light in kelvin (default: 6504)
+  temperature?: number;
+  // Green (-100) to magenta (100) shift off the daylight locus (default: 0)
+  tint?: number;
+};
+
+export type WhiteBalanceMethod = "grayWorld" | "whitePatch";
+
+export type AutoWhiteBalanceParams = {
+  method?: WhiteBalanceMethod;
+  // Neutralizes the mean color around a pixel instead (eyedropper)
+  sample?: {
+    point: Point;
+    // Half size of the sampled square in pixels (default: 2)
+    radius?: number;
+  };
+};
+
+const REFERENCE_TEMPERATURE = 6504;
+
+// Planckian locus chromaticity (Kim et al. cubic spline, 1667-25000 K)
+function planckian(temperature: number): [number, number] {
+  const t = Math.min(Math.max(temperature, 1667), 25000);
+  const t2 = t * t;
+  const t3 = t2 * t;
+
+  const x =
+    t <= 4000
+      ? -0.2661239e9 / t3 - 0.2343589e6 / t2 + 0.8776956e3 / t + 0.17991
+      : -3.0258469e9 / t3 + 2.1070379e6 / t2 + 0.2226347e3 / t + 0.24039;
+  const x2 = x * x;
+  const x3 = x2 * x;
+
+  const y =
+    t <= 2222
+      ? -1.1063814 * x3 - 1.3481102 * x2 + 2.18555832 * x - 0.20219683
+      : t <= 4000
+        ? -0.9549476 * x3 - 1.37418593 * x2 + 2.09137015 * x - 0.16748867
+        : 3.081758 * x3 - 5.8733867 * x2 + 3.75112997 * x - 0.37001483;
+
+  return [x, y];
+}
+
+// CIE 1960 uv from xy chromaticity
+const toUV = ([x, y]: [number, number]) => {
+  const d = -2 * x + 12 * y + 3;
+  return [(4 * x) / d, (6 * y) / d];
+};
+
+/**
+ * White point (XYZ, Y = 1) of a light at the given temperature, moved along
+ * the normal of the locus by the tint, positive tints lying on the green side
+ * so that adapting from them adds magenta.
+ */
+export function temperatureToXYZ(temperature: number, tint = 0): Vec3 {
+  const [u, v] = toUV(planckian(temperature));
+  const [u0, v0] = toUV(planckian(temperature - 10));
+  const [u1, v1] = toUV(planckian(temperature + 10));
+
+  // Unit normal pointing above the locus, towards green
+  let nu = -(v1 - v0);
+  let nv = u1 - u0;
+  const length = Math.hypot(nu, nv) || 1;
+  nu /= length;
+  nv /= length;
+  if (nv < 0) {
+    nu = -nu;
+    nv = -nv;
+  }
+
+  const duv = (tint / 100) * 0.02;
+  const su = u + nu * duv;
+  const sv = v + nv * duv;
+
+  const d = 2 * su - 8 * sv + 4;
+  const x = (3 * su) / d;
+  const y = (2 * sv) / d;
+  return [x / y, 1, (1 - x - y) / y];
+}
+
+// Linear RGB matrix mapping a white (XYZ) onto another with Bradford
+function adaptation(from: Vec3, to: Vec3, colorspace: Colorspace): Mat3 {
+  const toXYZ = colorspaceToXYZ(colorspace);
+  return multiply3(invert3(toXYZ), multiply3(bradfordMatrix(from, to), toXYZ));
+}
+
+// Linear RGB matrix making a measured linear RGB color neutral
+function neutralize(rgb: Vec3, colorspace: Colorspace): Mat3 {
+  const toXYZ = colorspaceToXYZ(colorspace);
+  const [x, y, z] = transformVector3(toXYZ, rgb);
+
+  // Black or clipped measurements carry no cast
+  if (y <= 0) {
+    return [1, 0, 0, 0, 1, 0, 0, 0, 1];
+  }
+
+  const white = transformVector3(toXYZ, [1, 1, 1]);
+  return adaptation([x / y, 1, z / y], white, colorspace);
+}
+
+export type WhiteBalanceOperationParams = WhiteBalanceParams & {
+  colorspace?: Colorspace;
+};
+
+// Adapts the light of a given temperature and tint to the reference white
+export class WhiteBalanceOperation extends BaseOperation {
+  params: WhiteBalanceOperationParams;
+
+  constructor(params: WhiteBalanceOperationParams = {}) {
+    super();
+    this.params = params;
+  }
+
+  run(ctx: OperationContext) {
+    const {
+      temperature = REFERENCE_TEMPERATURE,
+      tint = 0,
+      colorspace = "srgb",
+    } = this.params;
+
+    if (temperature <= 0) {
+      throw new Error("White balance temperature must be positive");
+    }
+
+    const matrix = adaptation(
+      temperatureToXYZ(temperature, tint),
+      temperatureToXYZ(REFERENCE_TEMPERATURE),
+      colorspace,
+    );
+    new ColorMatrixOperation({ matrix, colorspace }).run(ctx);
+  }
+}
+
+// Mean of the pixels within `radius` of a point, top-left origin
+function samplePoint(
+  renderer: GLRenderer,
+  source: GLTexture,
+  [x, y]: Point,
+  radius: number,
+): Vec3 {
+  const left = Math.max(0, Math.round(x - radius));
+  const right = Math.min(source.width - 1, Math.round(x + radius));
+  const top = Math.max(0, Math.round(y - radius));
+  const bottom = Math.min(source.height - 1, Math.round(y + radius));
+
+  if (left > right || top > bottom) {
+    throw new Error(`Sample point ${x},${y} is outside the image`);
+  }
+
+  const width = right - left + 1;
+  const height = bottom - top + 1;
+
+  // Framebuffer rows start at the bottom of the image
+  const framebuffer = renderer.framebuffer(source);
+  const data = framebuffer.readNormalized(
+    left,
+    source.height - 1 - bottom,
+    width,
+    height,
+  );
+  renderer.gl.deleteFramebuffer(framebuffer.handle);
+
+  const sum: Vec3 = [0, 0, 0];
+  for (let i = 0; i < width * height; i++) {
+    for (let c = 0; c < 3; c++) {
+      sum[c] += data[i * 4 + c];
+    }
+  }
+
+  return sum.map((value) => value / (width * height)) as Vec3;
+}
+
+export type AutoWhiteBalanceOperationParams = AutoWhiteBalanceParams & {
+  colorspace?: Colorspace;
+};
+
+// Measures the linear-light source on the GPU, then neutralizes the
+// estimated white
+export class AutoWhiteBalanceOperation extends BaseOperation {
+  params: AutoWhiteBalanceOperationParams;
+  // Measured white in linear light, available after running
+  white?: Vec3;
+  private linearLight = new TransferScope();
+
+  constructor(params: AutoWhiteBalanceOperationParams = {}) {
+    super();
+    this.params = params;
+  }
+
+  private measure(ctx: OperationContext, source: GLTexture): Vec3 {
+    const { method = "grayWorld", sample } = this.params;
+
+    if (sample) {
+      return samplePoint(
+        ctx.renderer,
+        source,
+        sample.point,
+        sample.radius ?? 2,
+      );
+    }
+
+    // Gray world averages every pixel, white patch takes per-channel maxima
+    const mode = method === "whitePatch" ? "max" : "mean";
+    const { data } = reduce(ctx.renderer, source, mode, ["x", "y"]);
+    return [data[0], data[1], data[2]];
+  }
+
+  run(ctx: OperationContext) {
+    const colorspace = this.params.colorspace ?? "srgb";
+
+    // Means of encoded values are not the linear-light means
+    this.linearLight.run(ctx, true, (ctx) => {
+      if (!ctx.source) {
+        throw new Error("Source texture is required");
+      }
+
+      this.white = this.measure(ctx, ctx.source);
+      const matrix = neutralize(this.white, colorspace);
+      new ColorMatrixOperation({ matrix, colorspace }).run(ctx);
+    });
+  }
+
+  dispose() {
+    this.linearLight.dispose();
+  }
+}
@@ -1,4 +1,5 @@
 import type { GLProgramDefinition, GLTexture } from "./gl";
+import { Mat3 } from "./utils/matrix";
 import { Vec4 } from "./utils/vector";
 
 export const COPY: GLProgramDefinition<{ source: GLTexture }> = {
@@ -35,3 +36,25 @@ export const COLOR: GLProgramDefinition<{ color: Vec4 }> = {
     equation: "add",
   },
 };
+
+// Samples the source through a uv -> uv matrix
+export const TRANSFORM: GLProgramDefinition<{
+  source: GLTexture;
+  transform: Mat3;
+}> = {
+  frag: /* glsl */ `
+    precision mediump float;
+    uniform sampler2D source;
+    uniform mat3 transform;
+    varying vec2 uv;
+
+    void main() {
+      vec2 p = (transform * vec3(uv, 1.0)).xy;
+      gl_FragColor = texture2D(source, p);
+    }
+  `,
+  uniforms: {
+    source: (props) => props.source,
+    transform: (props) => props.transform,
+  },
+};
@@ -0,0 +1,98 @@
+import { invert3, Mat3, multiply3, transformVector3 } from "./matrix";
+import { Vec3 } from "./vector";
+
+export type Colorspace = "srgb" | "display-p3" | "rec2020" | "linear-srgb";
+
+export type TransferCurve = "linear" | "srgb" | "rec2020";
+
+// Encoding curve of each color space, Display P3 shares the sRGB curve
+export const transferCurves: Record<Colorspace, TransferCurve> = {
+  srgb: "srgb",
+  "display-p3": "srgb",
+  rec2020: "rec2020",
+  "linear-srgb": "linear",
+};
+
+// Linear RGB to CIE XYZ (D65), column-major
+const toXYZ: Record<Colorspace, Mat3> = {
+  srgb: [
+    0.4123908, 0.212639, 0.0193308, 0.3575843, 0.7151687, 0.1191948, 0.1804808,
+    0.0721923, 0.9505322,
+  ],
+  "display-p3": [
+    0.4865709, 0.2289746, 0, 0.2656677, 0.6917385, 0.0451134, 0.1982173,
+    0.0792869, 1.0439444,
+  ],
+  rec2020: [
+    0.636958, 0.2627002, 0, 0.1446169, 0.6779981, 0.0280727, 0.168881,
+    0.0593017, 1.0609851,
+  ],
+  "linear-srgb": [
+    0.4123908, 0.212639, 0.0193308, 0.3575843, 0.7151687, 0.1191948, 0.1804808,
+    0.0721923, 0.9505322,
+  ],
+};
+
+// Linear RGB to CIE XYZ (D65) of a color space, column-major
+export function colorspaceToXYZ(space: Colorspace): Mat3 {
+  return [...toXYZ[space]];
+}
+
+// Converts linear RGB between the primaries of two color spaces
+export function colorspaceMatrix(from: Colorspace, to: Colorspace): Mat3 {
+  return multiply3(invert3(toXYZ[to]), toXYZ[from]);
+}
+
+// CIE XYZ of standard illuminants, normalized to Y = 1
+export const D50: Vec3 = [0.9642, 1, 0.8249];
+export const D65: Vec3 = [0.95047, 1, 1.08883];
+
+// Bradford cone response, column-major
+const BRADFORD: Mat3 = [
+  0.8951, -0.7502, 0.0389, 0.2664, 1.7135, -0.0685, -0.1614, 0.0367, 1.0296,
+];
+
+// Chromatic adaptation of XYZ colors between two white points
+export function bradfordMatrix(from: Vec3, to: Vec3): Mat3 {
+  const source = transformVector3(BRADFORD, from);
+  const target = transformVector3(BRADFORD, to);
+  const scale: Mat3 = [
+    target[0] / source[0],
+    0,
+    0,
+    0,
+    target[1] / source[1],
+    0,
+    0,
+    0,
+    target[2] / source[2],
+  ];
+  return multiply3(invert3(BRADFORD), multiply3(scale, BRADFORD));
+}
+
+// Decodes one encoded component to linear light
+export function decodeTransfer(curve: TransferCurve, value: number) {
+  if (curve === "srgb") {
+    return value <= 0.04045
+      ? value / 12.92
+      : Math.pow((value + 0.055) / 1.055, 2.4);
+  }
+  if (curve === "rec2020") {
+    return value < 0.08145
+      ? value / 4.5
+      : Math.pow((value + 0.0993) / 1.0993, 1 / 0.45);
+  }
+  return value;
+}
+
+// Encodes one linear-light component
+export function encodeTransfer(curve: TransferCurve, value: number) {
+  const v = Math.max(value, 0);
+  if (curve === "srgb") {
+    return v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+  }
+  if (curve === "rec2020") {
+    return v < 0.0181 ? v * 4.5 : 1.0993 * Math.pow(v, 0.45) - 0.0993;
+  }
+  return v;
+}
@@ -0,0 +1,122 @@
+import { Vec3 } from "./vector";
+
+export type CubeLUT = {
+  title?: string;
+  // Lattice points along each axis
+  size: number;
+  domainMin: Vec3;
+  domainMax: Vec3;
+  // RGB triplets, red varying fastest, then green, then blue
+  data: Float32Array;
+};
+
+const MIN_SIZE = 2;
+const MAX_SIZE = 256;
+
+function parseNumbers(values: string[], count: number, line: number) {
+  const numbers = values.map(Number);
+  if (numbers.length !== count || numbers.some((n) => !Number.isFinite(n))) {
+    throw new Error(
+      `Invalid .cube file: expected ${count} numbers on line ${line}`,
+    );
+  }
+  return numbers;
+}
+
+/**
+ * Parses an Adobe/Resolve `.cube` 3D LUT. Throws with the offending line
+ * when the file is malformed, so it can be used to validate files upfront.
+ */
+export function parseCube(text: string): CubeLUT {
+  let title: string | undefined;
+  let size = 0;
+  let domainMin: Vec3 = [0, 0, 0];
+  let domainMax: Vec3 = [1, 1, 1];
+  let data: Float32Array | undefined;
+  let count = 0;
+
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const number = i + 1;
+
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+
+    const [keyword, ...values] = line.split(/\s+/);
+
+    // Keywords must come before the table
+    if (!data) {
+      switch (keyword) {
+        case "TITLE":
+          title = line
+            .slice(keyword.length)
+            .trim()
+            .replace(/^"(.*)"$/, "$1");
+          continue;
+        case "LUT_3D_SIZE":
+          size = parseNumbers(values, 1, number)[0];
+          if (!Number.isInteger(size) || size < MIN_SIZE || size > MAX_SIZE) {
+            throw new Error(
+              `Invalid .cube file: LUT_3D_SIZE must be an integer between ${MIN_SIZE} and ${MAX_SIZE}`,
+            );
+          }
+          continue;
+        case "DOMAIN_MIN":
+          domainMin = parseNumbers(values, 3, number) as Vec3;
+          continue;
+        case "DOMAIN_MAX":
+          domainMax = parseNumbers(values, 3, number) as Vec3;
+          continue;
+        case "LUT_3D_INPUT_RANGE": {
+          const [min, max] = parseNumbers(values, 2, number);
+          domainMin = [min, min, min];
+          domainMax = [max, max, max];
+          continue;
+        }
+        case "LUT_1D_SIZE":
+        case "LUT_1D_INPUT_RANGE":
+          throw new Error("Invalid .cube file: 1D LUTs are not supported");
+      }
+
+      if (!/^[-+.\d]/.test(keyword)) {
+        throw new Error(
+          `Invalid .cube file: unknown keyword ${keyword} on line ${number}`,
+        );
+      }
+
+      if (!size) {
+        throw new Error("Invalid .cube file: LUT_3D_SIZE is missing");
+      }
+
+      data = new Float32Array(size * size * size * 3);
+    }
+
+    if (count >= data.length) {
+      throw new Error(`Invalid .cube file: too many entries on line ${number}`);
+    }
+
+    data.set(parseNumbers([keyword, ...values], 3, number), count);
+    count += 3;
+  }
+
+  if (!size) {
+    throw new Error("Invalid .cube file: LUT_3D_SIZE is missing");
+  }
+
+  if (!data || count !== data.length) {
+    throw new Error(
+      `Invalid .cube file: expected ${size ** 3} entries, found ${count / 3}`,
+    );
+  }
+
+  for (let c = 0; c < 3; c++) {
+    if (domainMax[c] <= domainMin[c]) {
+      throw new Error("Invalid .cube file: DOMAIN_MAX must exceed DOMAIN_MIN");
+    }
+  }
+
+  return { title, size, domainMin, domainMax, data };
+}
@@ -0,0 +1,313 @@
+export type ImageInfo = {
+  // EXIF orientation, 1 when missing
+  orientation: number;
+  // Stored pixel dimensions, before any orientation is applied
+  width?: number;
+  height?: number;
+};
+
+const fourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+
+// Reads the Orientation tag (0x0112) from IFD0 of a TIFF structure
+function readTiffOrientation(view: DataView, start: number) {
+  const order = view.getUint16(start);
+  if (order !== 0x4949 && order !== 0x4d4d) {
+    return 1;
+  }
+
+  const little = order === 0x4949;
+  if (view.getUint16(start + 2, little) !== 42) {
+    return 1;
+  }
+
+  const ifd = start + view.getUint32(start + 4, little);
+  const entries = view.getUint16(ifd, little);
+
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (view.getUint16(entry, little) === 0x0112) {
+      const value = view.getUint16(entry + 8, little);
+      return value >= 1 && value <= 8 ? value : 1;
+    }
+  }
+
+  return 1;
+}
+
+// Skips the optional "Exif\0\0" prefix found in WebP and HEIF payloads
+function readExifPayload(view: DataView, start: number) {
+  if (fourCC(view, start) === "Exif") {
+    start += 6;
+  }
+  return readTiffOrientation(view, start);
+}
+
+function readJpeg(view: DataView): ImageInfo {
+  const info: ImageInfo = { orientation: 1 };
+  let offset = 2;
+
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) {
+      break;
+    }
+
+    const marker = view.getUint8(offset + 1);
+    const length = view.getUint16(offset + 2);
+
+    // Start of scan, no more metadata
+    if (marker === 0xda) {
+      break;
+    }
+
+    if (marker === 0xe1 && fourCC(view, offset + 4) === "Exif") {
+      info.orientation = readTiffOrientation(view, offset + 10);
+    }
+
+    // Start of frame markers, excluding DHT, JPG and DAC
+    const isFrame =
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc;
+
+    if (isFrame) {
+      info.height = view.getUint16(offset + 5);
+      info.width = view.getUint16(offset + 7);
+    }
+
+    offset += 2 + length;
+  }
+
+  return info;
+}
+
+const readUint24 = (view: DataView, offset: number) =>
+  view.getUint16(offset, true) | (view.getUint8(offset + 2) << 16);
+
+function readWebp(view: DataView): ImageInfo {
+  const info: ImageInfo = { orientation: 1 };
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const type = fourCC(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const data = offset + 8;
+
+    if (type === "EXIF") {
+      info.orientation = readExifPayload(view, data);
+    } else if (type === "VP8X") {
+      info.width = 1 + readUint24(view, data + 4);
+      info.height = 1 + readUint24(view, data + 7);
+    } else if (type === "VP8 " && info.width === undefined) {
+      info.width = view.getUint16(data + 6, true) & 0x3fff;
+      info.height = view.getUint16(data + 8, true) & 0x3fff;
+    } else if (type === "VP8L" && info.width === undefined) {
+      const bits = view.getUint32(data + 1, true);
+      info.width = 1 + (bits & 0x3fff);
+      info.height = 1 + ((bits >> 14) & 0x3fff);
+    }
+
+    // Chunks are padded to an even size
+    offset = data + size + (size & 1);
+  }
+
+  return info;
+}
+
+type Box = {
+  type: string;
+  start: number;
+  end: number;
+};
+
+function* readBoxes(view: DataView, start: number, end: number) {
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = fourCC(view, offset + 4);
+    let header = 8;
+
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+
+    if (size < header) {
+      return;
+    }
+
+    yield { type, start: offset + header, end: offset + size } as Box;
+    offset += size;
+  }
+}
+
+function findBox(view: DataView, start: number, end: number, type: string) {
+  for (const box of readBoxes(view, start, end)) {
+    if (box.type === type) {
+      return box;
+    }
+  }
+}
+
+function readSized(view: DataView, offset: number, size: number) {
+  if (size === 8) return Number(view.getBigUint64(offset));
+  if (size === 4) return view.getUint32(offset);
+  if (size === 2) return view.getUint16(offset);
+  return 0;
+}
+
+// Locates the Exif item of an ISOBMFF (HEIF, AVIF) container
+function readHeif(view: DataView): ImageInfo {
+  const info: ImageInfo = { orientation: 1 };
+  const meta = findBox(view, 0, view.byteLength, "meta");
+  if (!meta) {
+    return info;
+  }
+
+  // meta is a full box, skip version and flags
+  const metaStart = meta.start + 4;
+
+  const iprp = findBox(view, metaStart, meta.end, "iprp");
+  const ipco = iprp && findBox(view, iprp.start, iprp.end, "ipco");
+  const ispe = ipco && findBox(view, ipco.start, ipco.end, "ispe");
+  if (ispe) {
+    info.width = view.getUint32(ispe.start + 4);
+    info.height = view.getUint32(ispe.start + 8);
+  }
+
+  const iinf = findBox(view, metaStart, meta.end, "iinf");
+  const iloc = findBox(view, metaStart, meta.end, "iloc");
+  if (!iinf || !iloc) {
+    return info;
+  }
+
+  let exifId = -1;
+  const iinfVersion = view.getUint8(iinf.start);
+  const entriesStart = iinf.start + 4 + (iinfVersion === 0 ? 2 : 4);
+
+  for (const infe of readBoxes(view, entriesStart, iinf.end)) {
+    const version = infe.type === "infe" ? view.getUint8(infe.start) : 0;
+    if (version < 2) continue;
+
+    const idSize = version === 2 ? 2 : 4;
+    const id = readSized(view, infe.start + 4, idSize);
+    const type = fourCC(view, infe.start + 4 + idSize + 2);
+    if (type === "Exif") {
+      exifId = id;
+      break;
+    }
+  }
+
+  if (exifId < 0) {
+    return info;
+  }
+
+  const version = view.getUint8(iloc.start);
+  const sizes = view.getUint16(iloc.start + 4);
+  const offsetSize = (sizes >> 12) & 0xf;
+  const lengthSize = (sizes >> 8) & 0xf;
+  const baseOffsetSize = (sizes >> 4) & 0xf;
+  const indexSize = version === 0 ? 0 : sizes & 0xf;
+  const idSize = version === 2 ? 4 : 2;
+
+  let offset = iloc.start + 6;
+  const count = readSized(view, offset, version === 2 ? 4 : 2);
+  offset += version === 2 ? 4 : 2;
+
+  for (let i = 0; i < count; i++) {
+    const id = readSized(view, offset, idSize);
+    offset += idSize;
+    if (version > 0) offset += 2; // construction method
+    offset += 2; // data reference index
+    const base = readSized(view, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+    const extents = view.getUint16(offset);
+    offset += 2;
+
+    for (let j = 0; j < extents; j++) {
+      offset += indexSize;
+      const extent = readSized(view, offset, offsetSize);
+      offset += offsetSize + lengthSize;
+
+      if (id === exifId && j === 0) {
+        // Payload starts with the offset to the TIFF header
+        const start = base + extent;
+        info.orientation = readExifPayload(
+          view,
+          start + 4 + view.getUint32(start),
+        );
+        return info;
+      }
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Reads the EXIF orientation and stored dimensions of JPEG, WebP and
+ * HEIF-like images. Unknown or malformed files report orientation 1.
+ */
+export function readImageInfo(buffer: ArrayBuffer): ImageInfo {
+  const view = new DataView(buffer);
+
+  try {
+    if (view.byteLength >= 2 && view.getUint16(0) === 0xffd8) {
+      return readJpeg(view);
+    }
+
+    if (
+      view.byteLength >= 12 &&
+      fourCC(view, 0) === "RIFF" &&
+      fourCC(view, 8) === "WEBP"
+    ) {
+      return readWebp(view);
+    }
+
+    if (view.byteLength >= 12 && fourCC(view, 4) === "ftyp") {
+      return readHeif(view);
+    }
+  } catch (error) {
+    if (!(error instanceof RangeError)) {
+      throw error;
+    }
+  }
+
+  return { orientation: 1 };
+}
+
+/**
+ * Whether the browser already applied the EXIF orientation when decoding.
+ * Transposing orientations are detected from the decoded dimensions, the
+ * rest fall back to the CSS `image-orientation` support.
+ */
+export function isOrientationApplied(
+  info: ImageInfo,
+  decoded: { width: number; height: number },
+) {
+  const transposed = info.orientation >= 5;
+
+  if (
+    transposed &&
+    info.width !== undefined &&
+    info.height !== undefined &&
+    info.width !== info.height
+  ) {
+    return decoded.width === info.height && decoded.height === info.width;
+  }
+
+  return (
+    typeof CSS !== "undefined" &&
+    CSS.supports("image-orientation", "from-image")
+  );
+}
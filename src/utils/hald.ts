@@ -0,0 +1,43 @@
+/**
+ * Hald CLUTs store a cube of `level²` points per axis in a square image of
+ * `level³` pixels, red varying fastest, then green, then blue.
+ */
+export function haldLevel(width: number, height: number) {
+  const level = Math.round(Math.cbrt(width));
+
+  if (width !== height || level < 2 || level ** 3 !== width) {
+    throw new Error(
+      `Invalid Hald CLUT size ${width}x${height}, expected a square of level³ pixels`,
+    );
+  }
+
+  return level;
+}
+
+// Unmodified Hald CLUT, to be graded in an editor and loaded with haldClut()
+export function identityHaldClut(level: number) {
+  if (!Number.isInteger(level) || level < 2 || level > 16) {
+    throw new Error("Hald CLUT level must be an integer between 2 and 16");
+  }
+
+  const cube = level * level;
+  const size = level ** 3;
+  const image = new ImageData(size, size);
+
+  for (let i = 0; i < size * size; i++) {
+    const r = i % cube;
+    const g = Math.floor(i / cube) % cube;
+    const b = Math.floor(i / (cube * cube));
+    image.data.set(
+      [
+        Math.round((r * 255) / (cube - 1)),
+        Math.round((g * 255) / (cube - 1)),
+        Math.round((b * 255) / (cube - 1)),
+        255,
+      ],
+      i * 4,
+    );
+  }
+
+  return image;
+}
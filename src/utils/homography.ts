@@ -0,0 +1,60 @@
+import { Mat3 } from "./matrix";
+
+export type Point = [number, number];
+
+export type Quad = [Point, Point, Point, Point];
+
+/**
+ * Solves the projective transform mapping each `from` point onto the
+ * matching `to` point. The result is a column-major Mat3 normalized so its
+ * last element is 1.
+ */
+export function computeHomography(from: Quad, to: Quad): Mat3 {
+  if (from.length !== 4 || to.length !== 4) {
+    throw new Error("Homography requires exactly four point pairs");
+  }
+
+  // Two rows per correspondence for the unknowns h0..h7, with h8 = 1
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const [x, y] = from[i];
+    const [u, v] = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  const h = solve(rows);
+
+  // Row-major solution transposed into column-major storage
+  return [h[0], h[3], h[6], h[1], h[4], h[7], h[2], h[5], 1];
+}
+
+// Gaussian elimination with partial pivoting on an augmented matrix
+function solve(rows: number[][]): number[] {
+  const n = rows.length;
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) {
+        pivot = row;
+      }
+    }
+
+    if (Math.abs(rows[pivot][col]) < 1e-12) {
+      throw new Error("Homography is degenerate, points may be collinear");
+    }
+
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k <= n; k++) {
+        rows[row][k] -= factor * rows[col][k];
+      }
+    }
+  }
+
+  return rows.map((row, i) => row[n] / row[i]);
+}
@@ -0,0 +1,606 @@
+import {
+  bradfordMatrix,
+  Colorspace,
+  colorspaceToXYZ,
+  D50,
+  D65,
+  encodeTransfer,
+  transferCurves,
+} from "./colorspace";
+import { CubeLUT } from "./cube";
+import { invert3, multiply3, transformVector3 } from "./matrix";
+import { Vec3 } from "./vector";
+
+export type ICCProfile = {
+  description?: string;
+  // Profile version, such as "4.3"
+  version: string;
+  // Device class signature, such as "mntr" or "scnr"
+  deviceClass: string;
+  // Data color space signature, such as "RGB" or "GRAY"
+  colorSpace: string;
+  // Profile connection space, "XYZ" or "Lab"
+  pcs: string;
+  // How device values reach the PCS, undefined when unsupported
+  model?: "matrix" | "lut";
+  // Device values (0-1) to PCS XYZ relative to D50, when supported
+  toXYZ?: (color: Vec3) => Vec3;
+};
+
+type Tag = {
+  offset: number;
+  size: number;
+};
+
+type Curve = (x: number) => number;
+
+const fourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+
+const s15Fixed16 = (view: DataView, offset: number) =>
+  view.getInt32(offset) / 65536;
+
+const clamp01 = (x: number) => Math.min(Math.max(x, 0), 1);
+
+// Linear interpolation through evenly spaced samples over 0-1
+function sampled(table: ArrayLike<number>): Curve {
+  const last = table.length - 1;
+  return (x) => {
+    const pos = clamp01(x) * last;
+    const i = Math.min(Math.floor(pos), last - 1);
+    const t = pos - i;
+    return table[i] + (table[i + 1] - table[i]) * t;
+  };
+}
+
+function readXYZ(view: DataView, tag: Tag): Vec3 {
+  return [
+    s15Fixed16(view, tag.offset + 8),
+    s15Fixed16(view, tag.offset + 12),
+    s15Fixed16(view, tag.offset + 16),
+  ];
+}
+
+// Reads a `curv` or `para` element, returning it with its padded byte size
+function readCurve(view: DataView, offset: number): [Curve, number] {
+  const type = fourCC(view, offset);
+
+  if (type === "curv") {
+    const count = view.getUint32(offset + 8);
+    const size = 12 + count * 2;
+    const padded = size + ((4 - (size % 4)) % 4);
+
+    if (count === 0) {
+      return [(x) => x, padded];
+    }
+
+    if (count === 1) {
+      const gamma = view.getUint16(offset + 12) / 256;
+      return [(x) => Math.pow(clamp01(x), gamma), padded];
+    }
+
+    const table = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      table[i] = view.getUint16(offset + 12 + i * 2) / 65535;
+    }
+    return [sampled(table), padded];
+  }
+
+  if (type === "para") {
+    const fn = view.getUint16(offset + 8);
+    const counts = [1, 3, 4, 5, 7];
+    if (fn >= counts.length) {
+      throw new Error(`Unsupported ICC parametric curve type ${fn}`);
+    }
+
+    const p = Array.from({ length: 7 }, (_, i) =>
+      i < counts[fn] ? s15Fixed16(view, offset + 12 + i * 4) : 0,
+    );
+    const [g, a, b, c, d, e, f] = p;
+    const pow = (x: number) => Math.pow(Math.max(x, 0), g);
+
+    const curves: Curve[] = [
+      (x) => pow(x),
+      (x) => (x >= -b / a ? pow(a * x + b) : 0),
+      (x) => (x >= -b / a ? pow(a * x + b) + c : c),
+      (x) => (x >= d ? pow(a * x + b) : c * x),
+      (x) => (x >= d ? pow(a * x + b) + e : c * x + f),
+    ];
+    return [curves[fn], 12 + counts[fn] * 4];
+  }
+
+  throw new Error(`Unsupported ICC curve type ${type}`);
+}
+
+function readCurves(view: DataView, offset: number, count: number) {
+  const curves: Curve[] = [];
+  for (let i = 0; i < count; i++) {
+    const [curve, size] = readCurve(view, offset);
+    curves.push(curve);
+    offset += size;
+  }
+  return curves;
+}
+
+// Multilinear interpolation of a CLUT whose first input varies slowest
+function clut(
+  table: ArrayLike<number>,
+  grid: number[],
+  outputs: number,
+): (input: number[]) => number[] {
+  const inputs = grid.length;
+
+  return (input) => {
+    const base: number[] = [];
+    const frac: number[] = [];
+    for (let i = 0; i < inputs; i++) {
+      const pos = clamp01(input[i]) * (grid[i] - 1);
+      const index = Math.min(Math.floor(pos), grid[i] - 2);
+      base.push(Math.max(index, 0));
+      frac.push(grid[i] > 1 ? pos - base[i] : 0);
+    }
+
+    const out = new Array(outputs).fill(0);
+
+    // Visit each corner of the surrounding hypercube
+    for (let corner = 0; corner < 1 << inputs; corner++) {
+      let weight = 1;
+      let index = 0;
+      for (let i = 0; i < inputs; i++) {
+        const bit = (corner >> (inputs - 1 - i)) & 1;
+        weight *= bit ? frac[i] : 1 - frac[i];
+        index = index * grid[i] + Math.min(base[i] + bit, grid[i] - 1);
+      }
+      if (weight === 0) continue;
+      for (let o = 0; o < outputs; o++) {
+        out[o] += weight * table[index * outputs + o];
+      }
+    }
+
+    return out;
+  };
+}
+
+// Legacy lut8/lut16 (`mft1`, `mft2`) pipeline: curves, CLUT, curves
+function readLegacyLut(view: DataView, tag: Tag) {
+  const wide = fourCC(view, tag.offset) === "mft2";
+  const inputs = view.getUint8(tag.offset + 8);
+  const outputs = view.getUint8(tag.offset + 9);
+  const points = view.getUint8(tag.offset + 10);
+  const inputEntries = wide ? view.getUint16(tag.offset + 48) : 256;
+  const outputEntries = wide ? view.getUint16(tag.offset + 50) : 256;
+  const bytes = wide ? 2 : 1;
+  const max = wide ? 65535 : 255;
+
+  let offset = tag.offset + (wide ? 52 : 48);
+  const read = (count: number) => {
+    const values = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      values[i] =
+        (wide ? view.getUint16(offset + i * 2) : view.getUint8(offset + i)) /
+        max;
+    }
+    offset += count * bytes;
+    return values;
+  };
+
+  const inputCurves = Array.from({ length: inputs }, () =>
+    sampled(read(inputEntries)),
+  );
+  const table = read(points ** inputs * outputs);
+  const outputCurves = Array.from({ length: outputs }, () =>
+    sampled(read(outputEntries)),
+  );
+  const lookup = clut(table, new Array(inputs).fill(points), outputs);
+
+  return {
+    wide,
+    outputs,
+    apply: (color: number[]) =>
+      lookup(color.map((c, i) => inputCurves[i](c))).map((c, i) =>
+        outputCurves[i](c),
+      ),
+  };
+}
+
+// v4 `mAB ` pipeline: A curves, CLUT, M curves, matrix, B curves
+function readLutAtoB(view: DataView, tag: Tag) {
+  const inputs = view.getUint8(tag.offset + 8);
+  const outputs = view.getUint8(tag.offset + 9);
+  const at = (position: number) => {
+    const offset = view.getUint32(tag.offset + position);
+    return offset ? tag.offset + offset : 0;
+  };
+
+  const bOffset = at(12);
+  const matrixOffset = at(16);
+  const mOffset = at(20);
+  const clutOffset = at(24);
+  const aOffset = at(28);
+
+  const steps: ((color: number[]) => number[])[] = [];
+
+  if (aOffset) {
+    const curves = readCurves(view, aOffset, inputs);
+    steps.push((color) => color.map((c, i) => curves[i](c)));
+  }
+
+  if (clutOffset) {
+    const grid = Array.from({ length: inputs }, (_, i) =>
+      view.getUint8(clutOffset + i),
+    );
+    const precision = view.getUint8(clutOffset + 16);
+    const count = grid.reduce((a, b) => a * b, 1) * outputs;
+    const table = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      table[i] =
+        precision === 2
+          ? view.getUint16(clutOffset + 20 + i * 2) / 65535
+          : view.getUint8(clutOffset + 20 + i) / 255;
+    }
+    steps.push(clut(table, grid, outputs));
+  }
+
+  if (mOffset) {
+    const curves = readCurves(view, mOffset, outputs);
+    steps.push((color) => color.map((c, i) => curves[i](c)));
+  }
+
+  if (matrixOffset) {
+    const m = Array.from({ length: 12 }, (_, i) =>
+      s15Fixed16(view, matrixOffset + i * 4),
+    );
+    steps.push(([x, y, z]) => [
+      m[0] * x + m[1] * y + m[2] * z + m[9],
+      m[3] * x + m[4] * y + m[5] * z + m[10],
+      m[6] * x + m[7] * y + m[8] * z + m[11],
+    ]);
+  }
+
+  if (bOffset) {
+    const curves = readCurves(view, bOffset, outputs);
+    steps.push((color) => color.map((c, i) => curves[i](c)));
+  }
+
+  return {
+    wide: false,
+    outputs,
+    apply: (color: number[]) => steps.reduce((c, step) => step(c), color),
+  };
+}
+
+// CIE Lab relative to D50 to XYZ
+function labToXYZ([l, a, b]: number[]): Vec3 {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const inverse = (t: number) =>
+    t > 6 / 29 ? t ** 3 : 3 * (6 / 29) ** 2 * (t - 4 / 29);
+  return [D50[0] * inverse(fx), D50[1] * inverse(fy), D50[2] * inverse(fz)];
+}
+
+function readText(view: DataView, tag: Tag) {
+  const type = fourCC(view, tag.offset);
+
+  if (type === "desc") {
+    const length = view.getUint32(tag.offset + 8);
+    let text = "";
+    for (let i = 0; i < length - 1; i++) {
+      text += String.fromCharCode(view.getUint8(tag.offset + 12 + i));
+    }
+    return text;
+  }
+
+  if (type === "mluc") {
+    // First record: language, country, length, offset
+    const length = view.getUint32(tag.offset + 20);
+    const start = tag.offset + view.getUint32(tag.offset + 24);
+    let text = "";
+    for (let i = 0; i < length; i += 2) {
+      text += String.fromCharCode(view.getUint16(start + i));
+    }
+    return text;
+  }
+
+  if (type === "text") {
+    let text = "";
+    for (let i = 8; i < tag.size; i++) {
+      const code = view.getUint8(tag.offset + i);
+      if (!code) break;
+      text += String.fromCharCode(code);
+    }
+    return text;
+  }
+}
+
+/**
+ * Parses an ICC profile. RGB and gray matrix/TRC profiles and LUT-based
+ * (`mft1`, `mft2`, `mAB `) profiles expose `toXYZ`, others only report
+ * their header.
+ */
+export function parseICCProfile(data: Uint8Array): ICCProfile {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  if (view.byteLength < 132 || fourCC(view, 36) !== "acsp") {
+    throw new Error("Invalid ICC profile");
+  }
+
+  const major = view.getUint8(8);
+  const minor = view.getUint8(9) >> 4;
+  const profile: ICCProfile = {
+    version: `${major}.${minor}`,
+    deviceClass: fourCC(view, 12).trim(),
+    colorSpace: fourCC(view, 16).trim(),
+    pcs: fourCC(view, 20).trim(),
+  };
+
+  const tags = new Map<string, Tag>();
+  const count = view.getUint32(128);
+  for (let i = 0; i < count; i++) {
+    const entry = 132 + i * 12;
+    tags.set(fourCC(view, entry), {
+      offset: view.getUint32(entry + 4),
+      size: view.getUint32(entry + 8),
+    });
+  }
+
+  const desc = tags.get("desc");
+  profile.description = desc && readText(view, desc);
+
+  const inputs = { RGB: 3, GRAY: 1 }[profile.colorSpace];
+  if (!inputs || (profile.pcs !== "XYZ" && profile.pcs !== "Lab")) {
+    return profile;
+  }
+
+  try {
+    const a2b = tags.get("A2B0");
+
+    if (a2b) {
+      const type = fourCC(view, a2b.offset);
+      const lut =
+        type === "mAB "
+          ? readLutAtoB(view, a2b)
+          : type === "mft1" || type === "mft2"
+            ? readLegacyLut(view, a2b)
+            : undefined;
+
+      if (lut && lut.outputs === 3) {
+        // Normalized PCS encodings, lut16 Lab tops out at 0xFF00
+        const lab = profile.pcs === "Lab";
+        const scale = lab ? (lut.wide ? 65535 / 65280 : 1) : 65535 / 32768;
+
+        profile.model = "lut";
+        profile.toXYZ = (color) => {
+          const [x, y, z] = lut
+            .apply(color.slice(0, inputs))
+            .map((v) => v * scale);
+          return lab
+            ? labToXYZ([x * 100, y * 255 - 128, z * 255 - 128])
+            : [x, y, z];
+        };
+        return profile;
+      }
+    }
+
+    if (inputs === 3) {
+      const colorants = ["rXYZ", "gXYZ", "bXYZ"].map((name) => tags.get(name));
+      const trcs = ["rTRC", "gTRC", "bTRC"].map((name) => tags.get(name));
+
+      if (colorants.every(Boolean) && trcs.every(Boolean)) {
+        const [r, g, b] = colorants.map((tag) => readXYZ(view, tag!));
+        const curves = trcs.map((tag) => readCurve(view, tag!.offset)[0]);
+
+        profile.model = "matrix";
+        profile.toXYZ = (color) => {
+          const [lr, lg, lb] = color.map((c, i) => curves[i](c));
+          return [
+            r[0] * lr + g[0] * lg + b[0] * lb,
+            r[1] * lr + g[1] * lg + b[1] * lb,
+            r[2] * lr + g[2] * lg + b[2] * lb,
+          ];
+        };
+      }
+    } else {
+      const trc = tags.get("kTRC");
+
+      if (trc) {
+        const curve = readCurve(view, trc.offset)[0];
+
+        profile.model = "matrix";
+        profile.toXYZ = (color) => {
+          const y = curve(color[0]);
+          return [D50[0] * y, y, D50[2] * y];
+        };
+      }
+    }
+  } catch {
+    // Unsupported or truncated tags leave the profile without a transform
+    profile.model = undefined;
+    profile.toXYZ = undefined;
+  }
+
+  return profile;
+}
+
+async function inflate(data: Uint8Array<ArrayBuffer>) {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Concatenates the APP2 "ICC_PROFILE" segments of a JPEG in sequence order
+function readJpegProfile(bytes: Uint8Array, view: DataView) {
+  const chunks: Uint8Array[] = [];
+  let count = 0;
+  let offset = 2;
+
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) {
+      break;
+    }
+
+    const marker = view.getUint8(offset + 1);
+    const length = view.getUint16(offset + 2);
+
+    if (marker === 0xda) {
+      break;
+    }
+
+    const signature = String.fromCharCode(
+      ...bytes.subarray(offset + 4, offset + 15),
+    );
+    if (marker === 0xe2 && signature === "ICC_PROFILE") {
+      // Sequence numbers start at 1, followed by the number of segments
+      const sequence = view.getUint8(offset + 16);
+      const total = view.getUint8(offset + 17);
+      if (sequence < 1 || sequence > total || (count && total !== count)) {
+        return;
+      }
+      count = total;
+      chunks[sequence - 1] = bytes.subarray(offset + 18, offset + 2 + length);
+    }
+
+    offset += 2 + length;
+  }
+
+  if (!count) {
+    return;
+  }
+
+  // A missing segment would truncate the profile
+  let size = 0;
+  for (let i = 0; i < count; i++) {
+    if (!chunks[i]) {
+      return;
+    }
+    size += chunks[i].length;
+  }
+
+  const out = new Uint8Array(size);
+  let position = 0;
+  for (let i = 0; i < count; i++) {
+    out.set(chunks[i], position);
+    position += chunks[i].length;
+  }
+  return out;
+}
+
+// Inflates the iCCP chunk of a PNG, found before the image data
+async function readPngProfile(bytes: Uint8Array, view: DataView) {
+  let offset = 8;
+
+  while (offset + 8 <= view.byteLength) {
+    const length = view.getUint32(offset);
+    const type = fourCC(view, offset + 4);
+    const data = offset + 8;
+
+    if (type === "IDAT" || type === "IEND") {
+      return;
+    }
+
+    if (type === "iCCP") {
+      // Profile name, null separator, compression method, zlib stream
+      const end = bytes.indexOf(0, data);
+      return inflate(bytes.slice(end + 2, data + length));
+    }
+
+    offset = data + length + 4;
+  }
+}
+
+function readWebpProfile(bytes: Uint8Array, view: DataView) {
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const type = fourCC(view, offset);
+    const size = view.getUint32(offset + 4, true);
+
+    if (type === "ICCP") {
+      return bytes.slice(offset + 8, offset + 8 + size);
+    }
+
+    offset += 8 + size + (size & 1);
+  }
+}
+
+/**
+ * Extracts the embedded ICC profile of a JPEG (APP2), PNG (iCCP) or WebP
+ * (ICCP) file, resolving to undefined when there is none or it cannot be
+ * read.
+ */
+export async function readICCProfile(
+  buffer: ArrayBuffer,
+): Promise<Uint8Array | undefined> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  try {
+    if (view.byteLength >= 2 && view.getUint16(0) === 0xffd8) {
+      return readJpegProfile(bytes, view);
+    }
+
+    if (view.byteLength >= 8 && view.getUint32(0) === 0x89504e47) {
+      return await readPngProfile(bytes, view);
+    }
+
+    if (
+      view.byteLength >= 12 &&
+      fourCC(view, 0) === "RIFF" &&
+      fourCC(view, 8) === "WEBP"
+    ) {
+      return readWebpProfile(bytes, view);
+    }
+  } catch {
+    // Truncated files and corrupt compressed data carry no usable profile
+    return undefined;
+  }
+}
+
+/**
+ * Samples a profile into a 3D LUT mapping its device values to a working
+ * color space, adapting the D50 PCS to the D65 white of the working space.
+ */
+export function iccToCube(
+  profile: ICCProfile,
+  colorspace: Colorspace,
+  size = 33,
+): CubeLUT {
+  const toXYZ = profile.toXYZ;
+  if (!toXYZ) {
+    throw new Error("ICC profile has no supported transform");
+  }
+
+  const matrix = multiply3(
+    invert3(colorspaceToXYZ(colorspace)),
+    bradfordMatrix(D50, D65),
+  );
+  const curve = transferCurves[colorspace];
+  const data = new Float32Array(size ** 3 * 3);
+
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const xyz = toXYZ([r / (size - 1), g / (size - 1), b / (size - 1)]);
+        const rgb = transformVector3(matrix, xyz);
+        const index = ((b * size + g) * size + r) * 3;
+        for (let c = 0; c < 3; c++) {
+          data[index + c] = encodeTransfer(curve, rgb[c]);
+        }
+      }
+    }
+  }
+
+  return {
+    title: profile.description,
+    size,
+    domainMin: [0, 0, 0],
+    domainMax: [1, 1, 1],
+    data,
+  };
+}
@@ -0,0 +1,43 @@
+// Anything exposing toCanvas, such as another SharpGPU pipeline
+export type RenderableInput = {
+  toCanvas(target: HTMLCanvasElement): Promise<unknown>;
+};
+
+export type ImageInput = string | TexImageSource | RenderableInput;
+
+export async function decodeImage(src: string) {
+  const image = new Image();
+  image.crossOrigin = "anonymous";
+  image.src = src;
+  await image.decode();
+  return image;
+}
+
+// Encoded file bytes for metadata, undefined when the URL cannot be fetched
+export async function fetchImageBuffer(src: string) {
+  try {
+    const response = await fetch(src);
+    return response.ok ? await response.arrayBuffer() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function isRenderable(input: ImageInput): input is RenderableInput {
+  return typeof input === "object" && "toCanvas" in input;
+}
+
+export function imageSize(image: TexImageSource) {
+  if (image instanceof HTMLVideoElement) {
+    return { width: image.videoWidth, height: image.videoHeight };
+  }
+
+  if (typeof VideoFrame !== "undefined" && image instanceof VideoFrame) {
+    return { width: image.displayWidth, height: image.displayHeight };
+  }
+
+  return {
+    width: (image as Exclude<TexImageSource, VideoFrame>).width,
+    height: (image as Exclude<TexImageSource, VideoFrame>).height,
+  };
+}
@@ -0,0 +1,92 @@
+// Column-major 3x3 matrix, matching the layout of GLSL mat3 uniforms
+export type Mat3 = [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+];
+
+export function scaleOffset3(
+  scale: [number, number],
+  offset: [number, number],
+): Mat3 {
+  return [scale[0], 0, 0, 0, scale[1], 0, offset[0], offset[1], 1];
+}
+
+export function identity3(): Mat3 {
+  return [1, 0, 0, 0, 1, 0, 0, 0, 1];
+}
+
+export function translate3(x: number, y: number): Mat3 {
+  return [1, 0, 0, 0, 1, 0, x, y, 1];
+}
+
+// Counter-clockwise rotation in a y-up coordinate system
+export function rotate3(radians: number): Mat3 {
+  const c = Math.cos(radians);
+  const s = Math.sin(radians);
+  return [c, s, 0, -s, c, 0, 0, 0, 1];
+}
+
+export function multiply3(a: Mat3, b: Mat3): Mat3 {
+  const out = new Array(9).fill(0) as Mat3;
+  for (let col = 0; col < 3; col++) {
+    for (let row = 0; row < 3; row++) {
+      let sum = 0;
+      for (let k = 0; k < 3; k++) {
+        sum += a[k * 3 + row] * b[col * 3 + k];
+      }
+      out[col * 3 + row] = sum;
+    }
+  }
+  return out;
+}
+
+export function invert3(m: Mat3): Mat3 {
+  const [a, b, c, d, e, f, g, h, i] = m;
+
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+
+  if (Math.abs(det) < 1e-12) {
+    throw new Error("Matrix is not invertible");
+  }
+
+  return [
+    A / det,
+    -(b * i - c * h) / det,
+    (b * f - c * e) / det,
+    B / det,
+    (a * i - c * g) / det,
+    -(a * f - c * d) / det,
+    C / det,
+    -(a * h - b * g) / det,
+    (a * e - b * d) / det,
+  ];
+}
+
+export function transformPoint3(m: Mat3, x: number, y: number) {
+  const w = m[2] * x + m[5] * y + m[8];
+  return [
+    (m[0] * x + m[3] * y + m[6]) / w,
+    (m[1] * x + m[4] * y + m[7]) / w,
+  ] as [number, number];
+}
+
+export function transformVector3(
+  m: Mat3,
+  v: [number, number, number],
+): [number, number, number] {
+  return [
+    m[0] * v[0] + m[3] * v[1] + m[6] * v[2],
+    m[1] * v[0] + m[4] * v[1] + m[7] * v[2],
+    m[2] * v[0] + m[5] * v[1] + m[8] * v[2],
+  ];
+}
@@ -0,0 +1,99 @@
+export type RawImage = {
+  width: number;
+  height: number;
+  // RGBA pixels, top row first
+  data: Uint8Array;
+  // 1 (gray), 2 (gray + alpha), 3 (RGB) or 4 (RGBA)
+  channels: number;
+};
+
+// PNG color types for each channel count
+const colorTypes: Record<number, number> = { 1: 0, 2: 4, 3: 2, 4: 6 };
+
+const crcTable = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array) {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    out[4 + i] = type.charCodeAt(i);
+  }
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+async function deflate(data: Uint8Array<ArrayBuffer>) {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Encodes RGBA pixels as a PNG keeping only the requested channels, which
+ * canvas encoders cannot do since they always write RGB(A).
+ */
+export async function encodePNG(image: RawImage): Promise<Blob> {
+  const { width, height, data, channels } = image;
+  const colorType = colorTypes[channels];
+
+  if (colorType === undefined) {
+    throw new Error(`Unsupported channel count: ${channels}`);
+  }
+
+  // RGBA index of each kept channel, gray images read red
+  const picks = [[0], [0, 3], [0, 1, 2], [0, 1, 2, 3]][channels - 1];
+  const stride = width * channels + 1;
+  const raw = new Uint8Array(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    // Filter type 0 (none) per scanline
+    raw[y * stride] = 0;
+    for (let x = 0; x < width; x++) {
+      const src = (y * width + x) * 4;
+      const dst = y * stride + 1 + x * channels;
+      for (let c = 0; c < channels; c++) {
+        raw[dst + c] = data[src + picks[c]];
+      }
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = colorType;
+
+  const signature = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+  return new Blob(
+    [
+      signature,
+      chunk("IHDR", header),
+      chunk("IDAT", await deflate(raw)),
+      chunk("IEND", new Uint8Array(0)),
+    ],
+    { type: "image/png" },
+  );
+}
@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import { affineLayout, AffineParams } from "../src/operations/affine";
+import { transformPoint3 } from "../src/utils/matrix";
+
+const source = { width: 4, height: 4 };
+
+// Source image point sampled for an output image point, converting from and
+// to framebuffer coordinates where y grows upwards
+function sample(params: AffineParams, [x, y]: [number, number]) {
+  const { height, transform } = affineLayout(source, params);
+  const [sx, sy] = transformPoint3(transform, x, height - y);
+  return [sx, source.height - sy].map((v) => Math.round(v * 1e6) / 1e6);
+}
+
+describe("affineLayout", () => {
+  test("fits the bounds of the transformed image", () => {
+    const { width, height } = affineLayout(source, { matrix: [2, 0, 0, 1] });
+    expect([width, height]).toEqual([8, 4]);
+    expect(sample({ matrix: [2, 0, 0, 1] }, [3, 1.5])).toEqual([1.5, 1.5]);
+  });
+
+  test("shifts the input before the matrix", () => {
+    const params = { matrix: [2, 0, 0, 1], idx: 1, idy: 0.5 };
+    const { width, height } = affineLayout(source, params);
+    expect([width, height]).toEqual([8, 4]);
+    expect(sample(params, [3, 1.5])).toEqual([0.5, 1]);
+  });
+
+  test("shifts the output after the matrix", () => {
+    const params = { matrix: [2, 0, 0, 1], odx: 1, ody: 0.5 };
+    expect(sample(params, [3, 1.5])).toEqual([1, 1]);
+  });
+});
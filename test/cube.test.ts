@@ -0,0 +1,92 @@
+import { describe, expect, test } from "bun:test";
+import { parseCube } from "../src/utils/cube";
+
+// Identity LUT of size 2, red varying fastest
+const identity = [
+  "0 0 0",
+  "1 0 0",
+  "0 1 0",
+  "1 1 0",
+  "0 0 1",
+  "1 0 1",
+  "0 1 1",
+  "1 1 1",
+];
+
+const cube = (...header: string[]) => [...header, ...identity].join("\n");
+
+describe("parseCube", () => {
+  test("parses the header and table", () => {
+    const lut = parseCube(
+      cube("# comment", 'TITLE "Identity"', "LUT_3D_SIZE 2", ""),
+    );
+
+    expect(lut.title).toBe("Identity");
+    expect(lut.size).toBe(2);
+    expect(lut.domainMin).toEqual([0, 0, 0]);
+    expect(lut.domainMax).toEqual([1, 1, 1]);
+    expect(Array.from(lut.data.slice(3, 6))).toEqual([1, 0, 0]);
+    expect(Array.from(lut.data.slice(21))).toEqual([1, 1, 1]);
+  });
+
+  test("reads domains and CRLF line endings", () => {
+    const text = [
+      "LUT_3D_SIZE 2",
+      "DOMAIN_MIN -0.5 0 0",
+      "DOMAIN_MAX 2 1 1",
+      ...identity,
+    ].join("\r\n");
+    const lut = parseCube(text);
+
+    expect(lut.domainMin).toEqual([-0.5, 0, 0]);
+    expect(lut.domainMax).toEqual([2, 1, 1]);
+  });
+
+  test("reads the Resolve input range", () => {
+    const lut = parseCube(cube("LUT_3D_SIZE 2", "LUT_3D_INPUT_RANGE 0 4"));
+    expect(lut.domainMin).toEqual([0, 0, 0]);
+    expect(lut.domainMax).toEqual([4, 4, 4]);
+  });
+
+  test("throws without a size", () => {
+    expect(() => parseCube(identity.join("\n"))).toThrow(
+      "LUT_3D_SIZE is missing",
+    );
+    expect(() => parseCube("")).toThrow("LUT_3D_SIZE is missing");
+  });
+
+  test("throws on out of range sizes", () => {
+    expect(() => parseCube(cube("LUT_3D_SIZE 1"))).toThrow("between 2 and");
+    expect(() => parseCube(cube("LUT_3D_SIZE 2.5"))).toThrow("between 2 and");
+  });
+
+  test("throws on missing or extra entries", () => {
+    expect(() => parseCube(cube("LUT_3D_SIZE 3"))).toThrow(
+      "expected 27 entries, found 8",
+    );
+    expect(() => parseCube(cube("LUT_3D_SIZE 2") + "\n0 0 0")).toThrow(
+      "too many entries on line 10",
+    );
+  });
+
+  test("throws on malformed rows with their line", () => {
+    const text = cube("LUT_3D_SIZE 2").replace("1 1 0", "1 x 0");
+    expect(() => parseCube(text)).toThrow("3 numbers on line 5");
+    expect(() =>
+      parseCube(cube("LUT_3D_SIZE 2").replace("1 0 1", "1 0")),
+    ).toThrow("3 numbers on line 7");
+  });
+
+  test("throws on unknown keywords and 1D LUTs", () => {
+    expect(() => parseCube(cube("LUT_3D_SIZE 2", "GAMMA 2.2"))).toThrow(
+      "unknown keyword GAMMA on line 2",
+    );
+    expect(() => parseCube(cube("LUT_1D_SIZE 2"))).toThrow("1D LUTs");
+  });
+
+  test("throws on empty domains", () => {
+    expect(() =>
+      parseCube(cube("LUT_3D_SIZE 2", "DOMAIN_MIN 0 0 0", "DOMAIN_MAX 1 0 1")),
+    ).toThrow("DOMAIN_MAX must exceed DOMAIN_MIN");
+  });
+});
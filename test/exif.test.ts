@@ -0,0 +1,125 @@
+import { describe, expect, test } from "bun:test";
+import { isOrientationApplied, readImageInfo } from "../src/utils/exif";
+
+const bytes = (...parts: (number[] | Uint8Array)[]) =>
+  new Uint8Array(parts.flatMap((part) => Array.from(part)));
+
+const ascii = (text: string) => [...text].map((c) => c.charCodeAt(0));
+const u16 = (value: number, little = false) =>
+  little ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff];
+const u32 = (value: number, little = false) => {
+  const big = [
+    value >>> 24,
+    (value >> 16) & 0xff,
+    (value >> 8) & 0xff,
+    value & 0xff,
+  ];
+  return little ? big.reverse() : big;
+};
+
+// TIFF header with a single IFD0 entry holding the orientation
+function tiff(orientation: number, little = false) {
+  return bytes(
+    ascii(little ? "II" : "MM"),
+    u16(42, little),
+    u32(8, little),
+    u16(1, little),
+    u16(0x0112, little),
+    u16(3, little),
+    u32(1, little),
+    u16(orientation, little),
+    [0, 0],
+    u32(0, little),
+  );
+}
+
+function jpeg(exif?: Uint8Array, width = 640, height = 480) {
+  const app1 = exif
+    ? bytes([0xff, 0xe1], u16(8 + exif.length), ascii("Exif"), [0, 0], exif)
+    : bytes();
+  const sof = bytes(
+    [0xff, 0xc0],
+    u16(17),
+    [8],
+    u16(height),
+    u16(width),
+    [3, 1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1],
+  );
+  const sos = bytes([0xff, 0xda], u16(8), [1, 1, 0, 0, 0x3f, 0]);
+  return bytes([0xff, 0xd8], app1, sof, sos).buffer;
+}
+
+function webp(exif: Uint8Array, width: number, height: number) {
+  const chunk = (type: string, data: Uint8Array) =>
+    bytes(
+      ascii(type),
+      u32(data.length, true),
+      data,
+      data.length & 1 ? [0] : [],
+    );
+  const vp8x = bytes(
+    [0x08, 0, 0, 0],
+    u32(width - 1, true).slice(0, 3),
+    u32(height - 1, true).slice(0, 3),
+  );
+  const body = bytes(ascii("WEBP"), chunk("VP8X", vp8x), chunk("EXIF", exif));
+  return bytes(ascii("RIFF"), u32(body.length, true), body).buffer;
+}
+
+describe("readImageInfo", () => {
+  test("reads JPEG orientation and stored size", () => {
+    expect(readImageInfo(jpeg(tiff(6)))).toEqual({
+      orientation: 6,
+      width: 640,
+      height: 480,
+    });
+  });
+
+  test("reads little-endian TIFF headers", () => {
+    expect(readImageInfo(jpeg(tiff(8, true))).orientation).toBe(8);
+  });
+
+  test("defaults to 1 without EXIF data", () => {
+    expect(readImageInfo(jpeg()).orientation).toBe(1);
+  });
+
+  test("reads WebP EXIF chunks and VP8X size", () => {
+    const exif = bytes(ascii("Exif"), [0, 0], tiff(3, true));
+    expect(readImageInfo(webp(exif, 300, 200))).toEqual({
+      orientation: 3,
+      width: 300,
+      height: 200,
+    });
+  });
+
+  test("ignores out of range orientations", () => {
+    expect(readImageInfo(jpeg(tiff(9))).orientation).toBe(1);
+  });
+
+  test("ignores invalid TIFF headers", () => {
+    const exif = tiff(6);
+    exif.set(ascii("XX"));
+    expect(readImageInfo(jpeg(exif)).orientation).toBe(1);
+  });
+
+  test("tolerates truncated files", () => {
+    const truncated = jpeg(tiff(6)).slice(0, 24);
+    expect(readImageInfo(truncated)).toEqual({ orientation: 1 });
+  });
+
+  test("reports unknown formats as unrotated", () => {
+    expect(readImageInfo(new Uint8Array([1, 2, 3]).buffer)).toEqual({
+      orientation: 1,
+    });
+    expect(readImageInfo(new ArrayBuffer(0))).toEqual({ orientation: 1 });
+  });
+});
+
+describe("isOrientationApplied", () => {
+  const info = { orientation: 6, width: 640, height: 480 };
+
+  test("detects transposed decodes from their size", () => {
+    expect(isOrientationApplied(info, { width: 480, height: 640 })).toBe(true);
+    expect(isOrientationApplied(info, { width: 640, height: 480 })).toBe(false);
+  });
+});
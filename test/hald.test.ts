@@ -0,0 +1,43 @@
+import "./polyfills";
+import { describe, expect, test } from "bun:test";
+import { haldLevel, identityHaldClut } from "../src/utils/hald";
+
+describe("haldLevel", () => {
+  test("returns the level of square level³ images", () => {
+    expect(haldLevel(8, 8)).toBe(2);
+    expect(haldLevel(64, 64)).toBe(4);
+    expect(haldLevel(512, 512)).toBe(8);
+  });
+
+  test("rejects other sizes", () => {
+    expect(() => haldLevel(512, 256)).toThrow("Invalid Hald CLUT size");
+    expect(() => haldLevel(100, 100)).toThrow("Invalid Hald CLUT size");
+    expect(() => haldLevel(1, 1)).toThrow("Invalid Hald CLUT size");
+  });
+});
+
+describe("identityHaldClut", () => {
+  test("spans every level² step with red varying fastest", () => {
+    const image = identityHaldClut(2);
+    const pixel = (i: number) => Array.from(image.data.slice(i * 4, i * 4 + 4));
+
+    expect(image.width).toBe(8);
+    expect(image.height).toBe(8);
+    expect(pixel(0)).toEqual([0, 0, 0, 255]);
+    expect(pixel(1)).toEqual([85, 0, 0, 255]);
+    expect(pixel(4)).toEqual([0, 85, 0, 255]);
+    expect(pixel(16)).toEqual([0, 0, 85, 255]);
+    expect(pixel(63)).toEqual([255, 255, 255, 255]);
+  });
+
+  test("round-trips through haldLevel", () => {
+    const image = identityHaldClut(4);
+    expect(haldLevel(image.width, image.height)).toBe(4);
+  });
+
+  test("rejects unsupported levels", () => {
+    expect(() => identityHaldClut(1)).toThrow("between 2 and 16");
+    expect(() => identityHaldClut(17)).toThrow("between 2 and 16");
+    expect(() => identityHaldClut(2.5)).toThrow("between 2 and 16");
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { computeHomography, Point, Quad } from "../src/utils/homography";
+import { Mat3 } from "../src/utils/matrix";
+
+// Applies a column-major homography to a point
+function project(m: Mat3, [x, y]: Point): Point {
+  const w = m[2] * x + m[5] * y + m[8];
+  return [(m[0] * x + m[3] * y + m[6]) / w, (m[1] * x + m[4] * y + m[7]) / w];
+}
+
+const square: Quad = [
+  [0, 0],
+  [1, 0],
+  [1, 1],
+  [0, 1],
+];
+
+describe("computeHomography", () => {
+  test("returns the identity for matching quads", () => {
+    const m = computeHomography(square, square);
+    [1, 0, 0, 0, 1, 0, 0, 0, 1].forEach((value, i) => {
+      expect(m[i]).toBeCloseTo(value, 10);
+    });
+  });
+
+  test("maps every corner onto its target", () => {
+    const to: Quad = [
+      [10, 20],
+      [110, 5],
+      [130, 140],
+      [-5, 100],
+    ];
+    const m = computeHomography(square, to);
+
+    square.forEach((point, i) => {
+      const [x, y] = project(m, point);
+      expect(x).toBeCloseTo(to[i][0], 8);
+      expect(y).toBeCloseTo(to[i][1], 8);
+    });
+    expect(m[8]).toBe(1);
+  });
+
+  test("inverts when swapping the quads", () => {
+    const to: Quad = [
+      [0, 0],
+      [4, 1],
+      [3, 5],
+      [-1, 3],
+    ];
+    const forward = computeHomography(square, to);
+    const inverse = computeHomography(to, square);
+    const [x, y] = project(inverse, project(forward, [0.3, 0.7]));
+    expect(x).toBeCloseTo(0.3, 8);
+    expect(y).toBeCloseTo(0.7, 8);
+  });
+
+  test("throws on collinear points", () => {
+    const line: Quad = [
+      [0, 0],
+      [1, 1],
+      [2, 2],
+      [3, 3],
+    ];
+    expect(() => computeHomography(line, square)).toThrow("degenerate");
+  });
+
+  test("throws without four point pairs", () => {
+    const three = square.slice(0, 3) as unknown as Quad;
+    expect(() => computeHomography(three, square)).toThrow("four point");
+  });
+});
@@ -0,0 +1,235 @@
+import "./polyfills";
+import { describe, expect, test } from "bun:test";
+import { deflateSync } from "node:zlib";
+import { iccToCube, parseICCProfile, readICCProfile } from "../src/utils/icc";
+
+const concat = (...parts: (number[] | Uint8Array)[]) =>
+  new Uint8Array(parts.flatMap((part) => Array.from(part)));
+
+const ascii = (text: string) => [...text].map((c) => c.charCodeAt(0));
+const u16 = (value: number) => [value >> 8, value & 0xff];
+const u32 = (value: number) => [
+  value >>> 24,
+  (value >> 16) & 0xff,
+  (value >> 8) & 0xff,
+  value & 0xff,
+];
+const s15 = (value: number) => u32(Math.round(value * 65536) >>> 0);
+
+const xyz = (x: number, y: number, z: number) =>
+  concat(ascii("XYZ "), [0, 0, 0, 0], s15(x), s15(y), s15(z));
+
+// sRGB piecewise curve as a type 3 parametric curve
+const srgbCurve = concat(
+  ascii("para"),
+  [0, 0, 0, 0],
+  u16(3),
+  [0, 0],
+  s15(2.4),
+  s15(1 / 1.055),
+  s15(0.055 / 1.055),
+  s15(1 / 12.92),
+  s15(0.04045),
+);
+
+const gammaCurve = (gamma: number) =>
+  concat(ascii("curv"), [0, 0, 0, 0], u32(1), u16(gamma * 256), [0, 0]);
+
+const desc = (text: string) =>
+  concat(ascii("desc"), [0, 0, 0, 0], u32(text.length + 1), ascii(text), [0]);
+
+// Header, tag table and padded tag data of a v2 profile
+function profile(
+  colorSpace: string,
+  tags: [string, Uint8Array][],
+  deviceClass = "mntr",
+) {
+  let offset = 132 + tags.length * 12;
+  const table: number[][] = [];
+  const data: Uint8Array[] = [];
+
+  for (const [name, tag] of tags) {
+    const padded = concat(tag, new Array((4 - (tag.length % 4)) % 4).fill(0));
+    table.push([...ascii(name), ...u32(offset), ...u32(tag.length)]);
+    data.push(padded);
+    offset += padded.length;
+  }
+
+  const header = new Uint8Array(128);
+  header.set(u32(offset), 0);
+  header.set([2, 0x10], 8);
+  header.set(ascii(deviceClass), 12);
+  header.set(ascii(colorSpace.padEnd(4)), 16);
+  header.set(ascii("XYZ "), 20);
+  header.set(ascii("acsp"), 36);
+
+  return concat(header, u32(tags.length), ...table, ...data);
+}
+
+// D50-adapted sRGB colorants
+const srgbProfile = profile("RGB", [
+  ["desc", desc("sRGB test")],
+  ["rXYZ", xyz(0.4361, 0.2225, 0.0139)],
+  ["gXYZ", xyz(0.3851, 0.7169, 0.0971)],
+  ["bXYZ", xyz(0.1431, 0.0606, 0.7141)],
+  ["rTRC", srgbCurve],
+  ["gTRC", srgbCurve],
+  ["bTRC", srgbCurve],
+]);
+
+describe("parseICCProfile", () => {
+  test("reads the header and description", () => {
+    expect(parseICCProfile(srgbProfile)).toMatchObject({
+      description: "sRGB test",
+      version: "2.1",
+      deviceClass: "mntr",
+      colorSpace: "RGB",
+      pcs: "XYZ",
+      model: "matrix",
+    });
+  });
+
+  test("maps matrix/TRC white to the D50 PCS white", () => {
+    const [x, y, z] = parseICCProfile(srgbProfile).toXYZ!([1, 1, 1]);
+    expect(x).toBeCloseTo(0.9643, 3);
+    expect(y).toBeCloseTo(1, 3);
+    expect(z).toBeCloseTo(0.8251, 3);
+  });
+
+  test("reads gray profiles through their kTRC", () => {
+    const gray = parseICCProfile(profile("GRAY", [["kTRC", gammaCurve(2)]]));
+    const [, y] = gray.toXYZ!([0.5, 0, 0]);
+    expect(gray.model).toBe("matrix");
+    expect(y).toBeCloseTo(0.25, 5);
+  });
+
+  test("reports unsupported profiles without a transform", () => {
+    const cmyk = parseICCProfile(profile("CMYK", [], "prtr"));
+    expect(cmyk.colorSpace).toBe("CMYK");
+    expect(cmyk.toXYZ).toBeUndefined();
+  });
+
+  test("drops the transform of malformed curves", () => {
+    const broken = profile("RGB", [
+      ["rXYZ", xyz(0.4361, 0.2225, 0.0139)],
+      ["gXYZ", xyz(0.3851, 0.7169, 0.0971)],
+      ["bXYZ", xyz(0.1431, 0.0606, 0.7141)],
+      ["rTRC", concat(ascii("abcd"), [0, 0, 0, 0])],
+      ["gTRC", srgbCurve],
+      ["bTRC", srgbCurve],
+    ]);
+    expect(parseICCProfile(broken).model).toBeUndefined();
+  });
+
+  test("throws on data that is not a profile", () => {
+    expect(() => parseICCProfile(new Uint8Array(64))).toThrow(
+      "Invalid ICC profile",
+    );
+    const unsigned = srgbProfile.slice();
+    unsigned.set(ascii("xxxx"), 36);
+    expect(() => parseICCProfile(unsigned)).toThrow("Invalid ICC profile");
+  });
+});
+
+describe("iccToCube", () => {
+  test("samples an sRGB profile close to the identity", () => {
+    const cube = iccToCube(parseICCProfile(srgbProfile), "srgb", 5);
+    expect(cube.title).toBe("sRGB test");
+    expect(cube.size).toBe(5);
+
+    // Lattice point (2, 1, 3), red varying fastest
+    const index = ((3 * 5 + 1) * 5 + 2) * 3;
+    const rgb = Array.from(cube.data.slice(index, index + 3));
+    [0.5, 0.25, 0.75].forEach((value, c) => {
+      expect(rgb[c]).toBeCloseTo(value, 2);
+    });
+  });
+
+  test("throws without a supported transform", () => {
+    const cmyk = parseICCProfile(profile("CMYK", [], "prtr"));
+    expect(() => iccToCube(cmyk, "srgb")).toThrow("no supported transform");
+  });
+});
+
+describe("readICCProfile", () => {
+  const app2 = (sequence: number, count: number, data: Uint8Array) =>
+    concat(
+      [0xff, 0xe2],
+      u16(16 + data.length),
+      ascii("ICC_PROFILE"),
+      [0, sequence, count],
+      data,
+    );
+
+  const jpeg = (...segments: Uint8Array[]) =>
+    concat([0xff, 0xd8], ...segments, [0xff, 0xda, 0, 2]).buffer;
+
+  const head = srgbProfile.subarray(0, 100);
+  const tail = srgbProfile.subarray(100);
+
+  test("reassembles JPEG APP2 segments in sequence order", async () => {
+    const data = await readICCProfile(jpeg(app2(2, 2, tail), app2(1, 2, head)));
+    expect(data).toEqual(srgbProfile);
+  });
+
+  test("rejects JPEG profiles with missing segments", async () => {
+    expect(await readICCProfile(jpeg(app2(1, 2, head)))).toBeUndefined();
+    expect(await readICCProfile(jpeg(app2(2, 2, tail)))).toBeUndefined();
+    expect(
+      await readICCProfile(jpeg(app2(1, 3, head), app2(3, 3, tail))),
+    ).toBeUndefined();
+  });
+
+  test("rejects JPEG segments with inconsistent numbering", async () => {
+    expect(await readICCProfile(jpeg(app2(0, 1, head)))).toBeUndefined();
+    expect(
+      await readICCProfile(jpeg(app2(1, 2, head), app2(2, 3, tail))),
+    ).toBeUndefined();
+  });
+
+  const png = (compressed: Uint8Array) => {
+    const iccp = concat(ascii("sRGB"), [0, 0], compressed);
+    return concat(
+      [137, 80, 78, 71, 13, 10, 26, 10],
+      u32(iccp.length),
+      ascii("iCCP"),
+      iccp,
+      [0, 0, 0, 0],
+      u32(0),
+      ascii("IEND"),
+      [0, 0, 0, 0],
+    ).buffer;
+  };
+
+  test("inflates PNG iCCP chunks", async () => {
+    const data = await readICCProfile(png(deflateSync(srgbProfile)));
+    expect(data).toEqual(srgbProfile);
+  });
+
+  test("resolves undefined for corrupt PNG iCCP data", async () => {
+    const corrupt = deflateSync(srgbProfile).map((byte) => byte ^ 0x5a);
+    expect(await readICCProfile(png(corrupt))).toBeUndefined();
+  });
+
+  test("reads WebP ICCP chunks", async () => {
+    const le = (value: number) => u32(value).reverse();
+    const body = concat(
+      ascii("WEBP"),
+      ascii("ICCP"),
+      le(srgbProfile.length),
+      srgbProfile,
+    );
+    const webp = concat(ascii("RIFF"), le(body.length), body);
+    expect(await readICCProfile(webp.buffer)).toEqual(srgbProfile);
+  });
+
+  test("resolves undefined without a profile", async () => {
+    expect(await readICCProfile(jpeg())).toBeUndefined();
+    expect(await readICCProfile(new ArrayBuffer(4))).toBeUndefined();
+  });
+
+  test("tolerates truncated files", async () => {
+    const truncated = jpeg(app2(1, 1, srgbProfile)).slice(0, 12);
+    expect(await readICCProfile(truncated)).toBeUndefined();
+  });
+});
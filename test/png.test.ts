@@ -0,0 +1,77 @@
+import "./polyfills";
+import { describe, expect, test } from "bun:test";
+import { inflateSync } from "node:zlib";
+import { encodePNG } from "../src/utils/png";
+
+type Chunk = { type: string; data: Uint8Array; crc: number };
+
+function readChunks(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const chunks: Chunk[] = [];
+  for (let offset = 8; offset < bytes.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    chunks.push({ type, data, crc: view.getUint32(offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+async function encode(channels: number) {
+  // 2x2 RGBA, top row first
+  const data = new Uint8Array([
+    10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120, 130, 140, 150, 160,
+  ]);
+  const blob = await encodePNG({ width: 2, height: 2, data, channels });
+  return {
+    blob,
+    bytes: new Uint8Array(await blob.arrayBuffer()),
+  };
+}
+
+describe("encodePNG", () => {
+  test("writes the signature and chunk layout", async () => {
+    const { blob, bytes } = await encode(4);
+
+    expect(blob.type).toBe("image/png");
+    expect(Array.from(bytes.subarray(0, 8))).toEqual([
+      137, 80, 78, 71, 13, 10, 26, 10,
+    ]);
+    expect(readChunks(bytes).map((chunk) => chunk.type)).toEqual([
+      "IHDR",
+      "IDAT",
+      "IEND",
+    ]);
+  });
+
+  test("writes valid checksums", async () => {
+    const { bytes } = await encode(4);
+    const iend = readChunks(bytes).at(-1)!;
+    expect(iend.crc).toBe(0xae426082);
+  });
+
+  test("keeps only the requested channels", async () => {
+    const expected: Record<number, [number, number[]]> = {
+      1: [0, [0, 10, 50, 0, 90, 130]],
+      2: [4, [0, 10, 40, 50, 80, 0, 90, 120, 130, 160]],
+      3: [2, [0, 10, 20, 30, 50, 60, 70, 0, 90, 100, 110, 130, 140, 150]],
+    };
+
+    for (const [channels, [colorType, scanlines]] of Object.entries(expected)) {
+      const [ihdr, idat] = readChunks((await encode(Number(channels))).bytes);
+      const header = new DataView(ihdr.data.buffer, ihdr.data.byteOffset);
+
+      expect(header.getUint32(0)).toBe(2);
+      expect(header.getUint32(4)).toBe(2);
+      expect(ihdr.data[8]).toBe(8);
+      expect(ihdr.data[9]).toBe(colorType);
+      expect(Array.from(inflateSync(idat.data))).toEqual(scanlines);
+    }
+  });
+
+  test("rejects unsupported channel counts", async () => {
+    await expect(encode(5)).rejects.toThrow("Unsupported channel count: 5");
+    await expect(encode(0)).rejects.toThrow("Unsupported channel count: 0");
+  });
+});
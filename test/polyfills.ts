@@ -0,0 +1,44 @@
+import { deflateSync, inflateSync } from "node:zlib";
+
+// Browser globals missing from the test runtime, backed by Node equivalents
+
+class ZlibStream extends TransformStream<Uint8Array, Uint8Array> {
+  constructor(convert: (data: Buffer) => Buffer) {
+    const chunks: Uint8Array[] = [];
+    super({
+      transform: (chunk) => {
+        chunks.push(chunk);
+      },
+      flush: (controller) => {
+        controller.enqueue(new Uint8Array(convert(Buffer.concat(chunks))));
+      },
+    });
+  }
+}
+
+class ImageDataPolyfill {
+  readonly data: Uint8ClampedArray;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+  ) {
+    this.data = new Uint8ClampedArray(width * height * 4);
+  }
+}
+
+const globals = globalThis as Record<string, unknown>;
+
+globals.CompressionStream ??= class extends ZlibStream {
+  constructor() {
+    super(deflateSync);
+  }
+};
+
+globals.DecompressionStream ??= class extends ZlibStream {
+  constructor() {
+    super(inflateSync);
+  }
+};
+
+globals.ImageData ??= ImageDataPolyfill;
@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { computeLayout } from "../src/operations/resize";
+
+const source = { width: 400, height: 200 };
+
+describe("computeLayout", () => {
+  test("keeps the source size without dimensions", () => {
+    expect(computeLayout(source, {})).toEqual({
+      width: 400,
+      height: 200,
+      content: { left: 0, top: 0, width: 400, height: 200 },
+    });
+  });
+
+  test("derives the missing dimension from the aspect ratio", () => {
+    expect(computeLayout(source, { width: 100 }).height).toBe(50);
+    expect(computeLayout(source, { height: 100 }).width).toBe(200);
+  });
+
+  test("stretches to fill by default", () => {
+    expect(computeLayout(source, { width: 100, height: 100 })).toEqual({
+      width: 100,
+      height: 100,
+      content: { left: 0, top: 0, width: 100, height: 100 },
+    });
+  });
+
+  test("crops the overflow when covering", () => {
+    const layout = computeLayout(source, {
+      width: 100,
+      height: 100,
+      fit: "cover",
+    });
+    expect(layout).toEqual({
+      width: 100,
+      height: 100,
+      content: { left: -50, top: 0, width: 200, height: 100 },
+    });
+  });
+
+  test("letterboxes when containing, anchored by position", () => {
+    const box = { width: 100, height: 100, fit: "contain" as const };
+
+    expect(computeLayout(source, box).content).toEqual({
+      left: 0,
+      top: 25,
+      width: 100,
+      height: 50,
+    });
+    expect(computeLayout(source, { ...box, position: "top" }).content.top).toBe(
+      0,
+    );
+    expect(
+      computeLayout(source, { ...box, position: "southeast" }).content.top,
+    ).toBe(50);
+  });
+
+  test("sizes the output to the content for inside and outside", () => {
+    const box = { width: 100, height: 100 };
+
+    expect(computeLayout(source, { ...box, fit: "inside" })).toMatchObject({
+      width: 100,
+      height: 50,
+    });
+    expect(computeLayout(source, { ...box, fit: "outside" })).toMatchObject({
+      width: 200,
+      height: 100,
+    });
+  });
+
+  test("honours withoutEnlargement and withoutReduction", () => {
+    expect(
+      computeLayout(source, { width: 800, withoutEnlargement: true }),
+    ).toMatchObject({ width: 400, height: 200 });
+    expect(
+      computeLayout(source, { width: 100, withoutReduction: true }),
+    ).toMatchObject({ width: 400, height: 200 });
+  });
+
+  test("never collapses below one pixel", () => {
+    const layout = computeLayout({ width: 1000, height: 1 }, { width: 10 });
+    expect(layout).toMatchObject({ width: 10, height: 1 });
+    expect(layout.content.height).toBe(1);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, test } from "bun:test";
+import { maskRegion } from "../src/operations/trim";
+
+// Reduced mask with RGBA texels, set at the given indices
+function mask(length: number, set: number[]) {
+  const data = new Float32Array(length * 4);
+  for (const i of set) {
+    data.fill(1, i * 4, i * 4 + 4);
+  }
+  return data;
+}
+
+describe("maskRegion", () => {
+  test("keeps exactly the marked pixels", () => {
+    // Content in columns 3-6 and image rows 2-4 of a 10x8 image, mask
+    // rows counted from the bottom
+    const region = maskRegion(
+      mask(10, [3, 4, 5, 6]),
+      mask(8, [3, 4, 5]),
+      10,
+      8,
+    );
+    expect(region).toEqual({ left: 3, top: 2, width: 4, height: 3 });
+  });
+
+  test("keeps a single marked pixel", () => {
+    expect(maskRegion(mask(5, [0]), mask(5, [4]), 5, 5)).toEqual({
+      left: 0,
+      top: 0,
+      width: 1,
+      height: 1,
+    });
+  });
+
+  test("keeps the whole image when nothing is marked", () => {
+    expect(maskRegion(mask(6, []), mask(4, []), 6, 4)).toEqual({
+      left: 0,
+      top: 0,
+      width: 6,
+      height: 4,
+    });
+  });
+});